@@ -0,0 +1,399 @@
+/**
+ * 资源本地化
+ * 收集文档中的图片、附件和音视频地址，下载到文档同级的 attachments 目录，
+ * 转换时把链接改写为本地相对路径，避免导出后依赖会过期或需要登录的语雀 CDN 地址。
+ * 内容和扩展名相同的图片、内容和文件名相同的附件在整个知识库中只保存一份，其他文档通过相对路径引用
+ */
+
+import { sanitizeFileName } from './file-naming';
+import { Node, parseHtml } from './html-parser';
+import type { ConvertOptions } from './html-to-md';
+import { cardValue, FileCardValue, parseCard } from './lake-cards';
+import { relativePath } from './links';
+import type { ArchiveWriter } from './zip-stream';
+
+export type AssetKind = 'image' | 'file' | 'video' | 'audio';
+
+export interface AssetRef {
+  url: string;
+  kind: AssetKind;
+  // 原始文件名，缺省时取地址中的文件名
+  name?: string;
+}
+
+export interface AssetFailure {
+  url: string;
+  kind: AssetKind;
+  reason: string;
+}
+
+// 一篇文档的资源下载结果
+export interface LocalizedAssets extends Pick<ConvertOptions, 'resolveAsset'> {
+  // 下载失败或超过大小上限而保留原地址的资源
+  failures: AssetFailure[];
+}
+
+// 单个资源的默认大小上限
+export const DEFAULT_MAX_ASSET_SIZE = 10 * 1024 * 1024;
+
+const MEDIA_TAGS: Record<string, AssetKind> = {
+  img: 'image',
+  video: 'video',
+  audio: 'audio',
+};
+
+// 引用资源的卡片
+const ASSET_CARDS: Record<string, AssetKind> = {
+  image: 'image',
+  board: 'image',
+  file: 'file',
+  video: 'video',
+  audio: 'audio',
+};
+
+// 语雀附件的下载地址，普通链接中只下载这类地址
+const ATTACHMENT_URL_RE = /^https?:\/\/(?:[\w-]+\.)*(?:yuque\.com|nlark\.com)\/(?:[^?#]*\/)?attachments\//;
+
+const contentTypeToExtension: Record<string, string> = {
+  'image/gif': '.gif',
+  'image/jpeg': '.jpg',
+  'image/svg+xml': '.svg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/wav': '.wav',
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+};
+
+function isHttpUrl(url: string | undefined): url is string {
+  return !!url && /^https?:\/\//i.test(url);
+}
+
+function collectFromNode(node: Node, assets: AssetRef[]): void {
+  if (node.type === 'element') {
+    const tagName = node.tagName || '';
+    const attrs = node.attributes || {};
+
+    if (tagName === 'card') {
+      const card = parseCard(attrs);
+      const kind = ASSET_CARDS[card.name];
+      const value = cardValue<FileCardValue>(card);
+      const url = value.src || value.url;
+      if (kind && isHttpUrl(url)) {
+        assets.push({ url, kind, name: kind === 'image' ? undefined : value.name });
+      }
+    } else if (MEDIA_TAGS[tagName] || tagName === 'source') {
+      if (isHttpUrl(attrs.src)) {
+        assets.push({ url: attrs.src, kind: MEDIA_TAGS[tagName] || 'video' });
+      }
+    } else if (tagName === 'a' && isHttpUrl(attrs.href) && ATTACHMENT_URL_RE.test(attrs.href)) {
+      assets.push({ url: attrs.href, kind: 'file' });
+    }
+  }
+
+  for (const child of node.children || []) {
+    collectFromNode(child, assets);
+  }
+}
+
+/**
+ * 收集 HTML 中可下载的资源，同一地址只保留第一次出现
+ */
+export function collectAssets(html: string): AssetRef[] {
+  const assets: AssetRef[] = [];
+  collectFromNode(parseHtml(html), assets);
+
+  const seen = new Set<string>();
+  return assets.filter(asset => !seen.has(asset.url) && seen.add(asset.url));
+}
+
+// 地址路径中的文件名
+function urlFileName(url: string): string {
+  const path = url.split(/[?#]/)[0];
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  try {
+    return decodeURIComponent(name);
+  } catch (e) {
+    return name;
+  }
+}
+
+function splitExtension(name: string): [string, string] {
+  const match = name.match(/^(.+?)(\.[\w-]{1,10})?$/);
+  return match ? [match[1], match[2] || ''] : [name, ''];
+}
+
+function startsWith(data: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, index) => data[offset + index] === byte);
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0));
+}
+
+/**
+ * 根据文件头判断扩展名，无法识别时返回空字符串
+ */
+export function sniffExtension(data: Uint8Array): string {
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47])) return '.png';
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return '.jpg';
+  if (startsWith(data, ascii('GIF8'))) return '.gif';
+  if (startsWith(data, ascii('RIFF')) && startsWith(data, ascii('WEBP'), 8)) return '.webp';
+  if (startsWith(data, ascii('RIFF')) && startsWith(data, ascii('WAVE'), 8)) return '.wav';
+  if (startsWith(data, ascii('BM'))) return '.bmp';
+  if (startsWith(data, ascii('%PDF'))) return '.pdf';
+  if (startsWith(data, [0x50, 0x4b, 0x03, 0x04])) return '.zip';
+  if (startsWith(data, ascii('ftyp'), 4)) return '.mp4';
+  if (startsWith(data, [0x1a, 0x45, 0xdf, 0xa3])) return '.webm';
+  if (startsWith(data, ascii('ID3')) || startsWith(data, [0xff, 0xfb])) return '.mp3';
+
+  const head = new TextDecoder().decode(data.subarray(0, 256)).trimStart();
+  if (/^(?:<\?xml[^>]*>\s*)?<svg[\s>]/i.test(head)) return '.svg';
+  return '';
+}
+
+async function sha256(data: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// 分块读取响应体，超过 limit 时取消读取并返回 null
+async function readLimited(body: ReadableStream<Uint8Array>, limit: number): Promise<Uint8Array | null> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel().catch(() => undefined);
+      return null;
+    }
+    chunks.push(value);
+  }
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+// 以有限的并发数依次处理 items
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+class RetryableError extends Error {}
+
+export interface AssetStoreOptions {
+  // 单个资源的大小上限（字节）
+  maxSize?: number;
+  // 同时进行的下载数
+  concurrency?: number;
+  // 单次请求的超时时间（毫秒）
+  timeout?: number;
+  // 失败后的重试次数，仅重试网络错误、超时、429 和 5xx
+  retries?: number;
+  // 首次重试前的等待时间（毫秒），之后每次翻倍
+  retryDelay?: number;
+  // 替换默认的 fetch，便于在本地桩服务上测试
+  fetch?: typeof fetch;
+  // 每个地址下载完成或失败时调用一次
+  onAsset?: (asset: AssetRef, failure?: AssetFailure) => void;
+}
+
+// 已下载的资源，path 为相对导出根目录的路径
+interface StoredAsset {
+  path: string;
+}
+
+export class AssetStore {
+  // 地址 -> 下载失败的原因
+  private failures = new Map<string, AssetFailure>();
+  // 已写入的路径，忽略大小写
+  private used = new Set<string>();
+  // 地址 -> 下载结果，同一地址在整个知识库中只下载一次
+  private downloads = new Map<string, Promise<StoredAsset | null>>();
+  // 内容哈希和文件名 -> 已写入的资源，内容相同的资源只保存一份
+  private hashes = new Map<string, StoredAsset>();
+  private options: Required<Omit<AssetStoreOptions, 'fetch' | 'onAsset'>> & Pick<AssetStoreOptions, 'fetch' | 'onAsset'>;
+
+  constructor(private zip: ArchiveWriter, options: AssetStoreOptions = {}) {
+    this.options = {
+      maxSize: DEFAULT_MAX_ASSET_SIZE,
+      concurrency: 4,
+      timeout: 30000,
+      retries: 2,
+      retryDelay: 500,
+      ...options,
+    };
+  }
+
+  /**
+   * 下载一篇文档中的资源，返回转换该文档时使用的资源地址回调和下载失败的资源
+   * @param outputDirPath 文档所在目录，新资源保存到该目录下的 attachments
+   */
+  async localize(html: string, outputDirPath: string): Promise<LocalizedAssets> {
+    const assets = collectAssets(html);
+    const stored = await mapLimit(assets, this.options.concurrency, asset => this.get(asset, outputDirPath));
+
+    const paths = new Map<string, string>();
+    const failures: AssetFailure[] = [];
+    assets.forEach((asset, index) => {
+      const result = stored[index];
+      if (result) {
+        paths.set(asset.url, relativePath(outputDirPath, result.path));
+      } else if (this.failures.has(asset.url)) {
+        failures.push(this.failures.get(asset.url)!);
+      }
+    });
+    return { resolveAsset: url => paths.get(url) ?? null, failures };
+  }
+
+  private get(asset: AssetRef, outputDirPath: string): Promise<StoredAsset | null> {
+    let download = this.downloads.get(asset.url);
+    if (!download) {
+      download = this.download(asset, outputDirPath);
+      this.downloads.set(asset.url, download);
+    }
+    return download;
+  }
+
+  private async download(asset: AssetRef, outputDirPath: string): Promise<StoredAsset | null> {
+    let data: Uint8Array | null;
+    let contentType: string;
+    try {
+      ({ data, contentType } = await this.fetchWithRetry(asset));
+    } catch (e) {
+      this.warn(asset, e instanceof Error ? e.message : String(e));
+      return null;
+    }
+    if (!data) {
+      return null;
+    }
+
+    const [base, ext] = this.fileName(asset, data, contentType);
+    // 图片只需扩展名相同即可复用，附件和音视频的文件名对用户可见，还需文件名相同
+    const key = `${await sha256(data)}/${asset.kind === 'image' ? ext : base + ext}`.toLowerCase();
+    let stored = this.hashes.get(key);
+    if (!stored) {
+      const fileName = this.uniqueName(base, ext, outputDirPath);
+      stored = { path: outputDirPath ? `${outputDirPath}/attachments/${fileName}` : `attachments/${fileName}` };
+      this.hashes.set(key, stored);
+      this.zip.file(stored.path, data);
+    }
+    this.options.onAsset?.(asset);
+    return stored;
+  }
+
+  // 返回 data 为 null 表示资源已被跳过并记录了原因
+  private async fetchWithRetry(asset: AssetRef): Promise<{ data: Uint8Array | null; contentType: string }> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchOnce(asset);
+      } catch (e) {
+        if (!(e instanceof RetryableError) || attempt >= this.options.retries) {
+          throw e;
+        }
+        await sleep(this.options.retryDelay * 2 ** attempt);
+      }
+    }
+  }
+
+  private async fetchOnce(asset: AssetRef): Promise<{ data: Uint8Array | null; contentType: string }> {
+    const fetcher = this.options.fetch || fetch;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetcher(asset.url, {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+            'Referer': 'https://www.yuque.com/',
+          },
+          signal: controller.signal,
+        });
+      } catch (e) {
+        throw new RetryableError(controller.signal.aborted ? `timed out after ${this.options.timeout}ms` : String(e));
+      }
+
+      if (!response.ok) {
+        // 不读取的响应体需要取消，否则连接会一直占用到超时
+        await response.body?.cancel().catch(() => undefined);
+        if (response.status === 429 || response.status >= 500) {
+          throw new RetryableError(`HTTP ${response.status}`);
+        }
+        this.warn(asset, `HTTP ${response.status}`);
+        return { data: null, contentType: '' };
+      }
+
+      const { maxSize } = this.options;
+      const length = Number(response.headers.get('Content-Length') || 0);
+      if (length > maxSize) {
+        await response.body?.cancel();
+        this.warn(asset, `size ${length} exceeds limit ${maxSize}`);
+        return { data: null, contentType: '' };
+      }
+
+      // Content-Length 可能缺失或不准确，边读边计数，超过上限即停止读取
+      let data: Uint8Array | null;
+      try {
+        data = response.body ? await readLimited(response.body, maxSize) : new Uint8Array(0);
+      } catch (e) {
+        throw new RetryableError(controller.signal.aborted ? `timed out after ${this.options.timeout}ms` : String(e));
+      }
+      if (!data) {
+        this.warn(asset, `size exceeds limit ${maxSize}`);
+        return { data: null, contentType: '' };
+      }
+      return { data, contentType: (response.headers.get('Content-Type') || '').split(';')[0].trim() };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // 使用原始文件名，缺少扩展名时按文件头或 Content-Type 补全
+  private fileName(asset: AssetRef, data: Uint8Array, contentType: string): [string, string] {
+    const [base, ext] = splitExtension(sanitizeFileName(asset.name || urlFileName(asset.url) || asset.kind));
+    return [base, ext || sniffExtension(data) || contentTypeToExtension[contentType] || ''];
+  }
+
+  // 同一目录下重名时追加 -2、-3 …
+  private uniqueName(base: string, ext: string, outputDirPath: string): string {
+    let name = base + ext;
+    for (let index = 2; this.used.has(`${outputDirPath}/${name}`.toLowerCase()); index++) {
+      name = `${base}-${index}${ext}`;
+    }
+    this.used.add(`${outputDirPath}/${name}`.toLowerCase());
+    return name;
+  }
+
+  private warn(asset: AssetRef, reason: string): void {
+    console.warn(`Skipped ${asset.kind} ${asset.url}: ${reason}`);
+    const failure = { url: asset.url, kind: asset.kind, reason };
+    this.failures.set(asset.url, failure);
+    this.options.onAsset?.(asset, failure);
+  }
+}
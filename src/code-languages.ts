@@ -0,0 +1,94 @@
+/**
+ * 代码块语言
+ * 语雀代码块的 mode 既有 CodeMirror 的 MIME 名称也有自定义别名，统一为常见高亮器识别的语言标识
+ */
+
+// 语雀 mode 与通用语言标识不一致的部分，未列出的原样使用
+const LANGUAGE_ALIASES: Record<string, string> = {
+  plain: '',
+  text: '',
+  plaintext: '',
+  js: 'javascript',
+  node: 'javascript',
+  ecmascript: 'javascript',
+  ts: 'typescript',
+  shell: 'bash',
+  sh: 'bash',
+  'c++': 'cpp',
+  'c++src': 'cpp',
+  csrc: 'c',
+  'c#': 'csharp',
+  cs: 'csharp',
+  'objective-c': 'objectivec',
+  objc: 'objectivec',
+  'objective-c++': 'objectivec',
+  golang: 'go',
+  py: 'python',
+  python3: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  kt: 'kotlin',
+  yml: 'yaml',
+  md: 'markdown',
+  htmlmixed: 'html',
+  vbnet: 'vb',
+  mysql: 'sql',
+  plsql: 'sql',
+  mssql: 'sql',
+  pgsql: 'sql',
+  docker: 'dockerfile',
+  ps1: 'powershell',
+  tex: 'latex',
+  stex: 'latex',
+  proto: 'protobuf',
+  gql: 'graphql',
+};
+
+// 单行注释前缀，块注释语言给出首尾
+const LINE_COMMENTS: Record<string, string> = {
+  javascript: '//', jsx: '//', typescript: '//', tsx: '//', java: '//', c: '//', cpp: '//',
+  csharp: '//', objectivec: '//', go: '//', rust: '//', swift: '//', kotlin: '//', scala: '//',
+  dart: '//', groovy: '//', php: '//', protobuf: '//', verilog: '//',
+  bash: '#', zsh: '#', python: '#', ruby: '#', perl: '#', r: '#', yaml: '#', toml: '#',
+  dockerfile: '#', nginx: '#', powershell: '#', properties: '#', makefile: '#', graphql: '#',
+  sql: '--', lua: '--', haskell: '--', vhdl: '--',
+  latex: '%', matlab: '%', erlang: '%',
+  vb: "'", vbscript: "'",
+};
+
+const BLOCK_COMMENTS: Record<string, [string, string]> = {
+  html: ['<!--', '-->'],
+  xml: ['<!--', '-->'],
+  vue: ['<!--', '-->'],
+  markdown: ['<!--', '-->'],
+  css: ['/*', '*/'],
+  scss: ['/*', '*/'],
+  less: ['/*', '*/'],
+};
+
+export function normalizeLanguage(mode: string | null | undefined): string {
+  const name = String(mode || '')
+    .trim()
+    .toLowerCase()
+    // CodeMirror 的 MIME 形式，如 text/x-java、text/x-c++src
+    .replace(/^(?:text|application)\/(?:x-)?/, '');
+  if (!/^[\w#+.-]+$/.test(name)) {
+    return '';
+  }
+  return LANGUAGE_ALIASES[name] ?? name;
+}
+
+/**
+ * 生成指定语言的单行注释，语言没有注释语法时返回 null
+ */
+export function commentLine(language: string, text: string): string | null {
+  const content = text.replace(/\s+/g, ' ').trim();
+  if (LINE_COMMENTS[language]) {
+    return `${LINE_COMMENTS[language]} ${content}`;
+  }
+  if (BLOCK_COMMENTS[language]) {
+    const [open, close] = BLOCK_COMMENTS[language];
+    return `${open} ${content.split(close).join('')} ${close}`;
+  }
+  return null;
+}
@@ -0,0 +1,206 @@
+/**
+ * Markdown 方言配置
+ * 同一份知识库会发布到不同平台，上下标、高亮、提示块、公式、任务列表和站内链接的写法各不相同
+ */
+
+import { escapeMarkdown, headingSlug, linkDestination } from './markdown-escape';
+
+export type Dialect = 'commonmark' | 'gfm' | 'obsidian' | 'hugo' | 'docusaurus';
+
+export type CalloutKind = 'note' | 'tip' | 'info' | 'warning' | 'danger';
+
+export interface InternalLink {
+  // 目标文档相对导出根目录的路径，不含扩展名
+  path: string;
+  // 目标文档相对当前文档所在目录的路径，不含扩展名
+  relativePath: string;
+  text: string;
+  // 目标标题的文本
+  heading?: string;
+}
+
+// 图片的替代文本和图注均为纯文本
+export interface FigureImage {
+  src: string;
+  alt: string;
+  width?: number;
+  height?: number;
+  caption?: string;
+}
+
+export interface DialectProfile {
+  name: Dialect;
+  // 是否支持 GFM 表格语法，不支持时输出 HTML 表格
+  tables: boolean;
+  // 代码块 info 中是否支持 title 属性，不支持时标题写成代码注释
+  codeTitle: boolean;
+  // 文档按 MDX 解析：HTML 必须是合法的 JSX，文本中的 { } 和 < 需要转义
+  mdx: boolean;
+  strikethrough(content: string): string;
+  superscript(content: string): string;
+  subscript(content: string): string;
+  highlight(content: string): string;
+  inlineMath(tex: string): string;
+  blockMath(tex: string): string;
+  taskMarker(checked: boolean): string;
+  callout(kind: CalloutKind, title: string, body: string): string;
+  // 可折叠块，title 为纯文本
+  collapsible(title: string, body: string): string;
+  internalLink(link: InternalLink): string;
+  // 带尺寸和图注的图片，返回 null 时输出 HTML <img>
+  figure(image: FigureImage): string | null;
+}
+
+export const DIALECTS: Dialect[] = ['commonmark', 'gfm', 'obsidian', 'hugo', 'docusaurus'];
+
+export const DEFAULT_DIALECT: Dialect = 'gfm';
+
+function quoteLines(text: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+const CALLOUT_LABELS: Record<CalloutKind, string> = {
+  note: 'Note',
+  tip: 'Tip',
+  info: 'Info',
+  warning: 'Warning',
+  danger: 'Danger',
+};
+
+// GitHub 仅支持 NOTE/TIP/IMPORTANT/WARNING/CAUTION 五种提示
+const GITHUB_ALERTS: Record<CalloutKind, string> = {
+  note: 'NOTE',
+  tip: 'TIP',
+  info: 'IMPORTANT',
+  warning: 'WARNING',
+  danger: 'CAUTION',
+};
+
+function githubCallout(kind: CalloutKind, title: string, body: string): string {
+  const content = title ? `**${title}**\n\n${body}` : body;
+  return quoteLines(`[!${GITHUB_ALERTS[kind]}]\n${content}`);
+}
+
+// HTML 中的纯文本，MDX 中 { } 以字符引用表示
+export function escapeHtmlText(text: string, mdx = false): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  return mdx ? escaped.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;') : escaped;
+}
+
+function htmlDetails(title: string, body: string, mdx = false): string {
+  return `<details>\n<summary>${escapeHtmlText(title, mdx)}</summary>\n\n${body}\n\n</details>`;
+}
+
+// 图注以强调文本的形式放在图片下方
+export function withCaption(markdown: string, caption: string | undefined, mdx = false): string {
+  return caption ? `${markdown}\n\n*${escapeMarkdown(caption, false, mdx)}*` : markdown;
+}
+
+function shortcodeValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function markdownLink(link: InternalLink): string {
+  const href = `${link.relativePath}.md${link.heading ? `#${headingSlug(link.heading)}` : ''}`;
+  return `[${link.text}](${linkDestination(href)})`;
+}
+
+function htmlTag(tag: string): (content: string) => string {
+  return content => `<${tag}>${content}</${tag}>`;
+}
+
+// MDX 中行内 JSX 元素不能跨段落，内容中的换行改为 <br />
+function jsxTag(tag: string): (content: string) => string {
+  return content => `<${tag}>${content.replace(/\n+/g, '<br />')}</${tag}>`;
+}
+
+const gfm: DialectProfile = {
+  name: 'gfm',
+  tables: true,
+  codeTitle: false,
+  mdx: false,
+  strikethrough: content => `~~${content}~~`,
+  superscript: htmlTag('sup'),
+  subscript: htmlTag('sub'),
+  highlight: htmlTag('mark'),
+  inlineMath: tex => `$${tex}$`,
+  blockMath: tex => `$$\n${tex}\n$$`,
+  taskMarker: checked => (checked ? '[x] ' : '[ ] '),
+  callout: githubCallout,
+  collapsible: htmlDetails,
+  internalLink: markdownLink,
+  figure: () => null,
+};
+
+export const dialectProfiles: Record<Dialect, DialectProfile> = {
+  commonmark: {
+    ...gfm,
+    name: 'commonmark',
+    // CommonMark 没有表格、删除线和任务列表语法
+    tables: false,
+    strikethrough: htmlTag('del'),
+    taskMarker: checked => (checked ? '☑ ' : '☐ '),
+    callout: (kind, title, body) => quoteLines(`**${title || CALLOUT_LABELS[kind]}**\n\n${body}`),
+  },
+  gfm,
+  obsidian: {
+    ...gfm,
+    name: 'obsidian',
+    highlight: content => `==${content}==`,
+    callout: (kind, title, body) => quoteLines(`[!${kind}]${title ? ` ${title}` : ''}\n${body}`),
+    // 标记后的 "-" 表示默认折叠
+    collapsible: (title, body) => quoteLines(`[!note]- ${title || 'Details'}\n${body}`),
+    // Obsidian 的 wikilink 以库根目录为基准
+    internalLink: link => `[[${link.path}${link.heading ? `#${link.heading}` : ''}|${link.text}]]`,
+    // Obsidian 在替代文本后用 |宽度 或 |宽x高 指定尺寸
+    figure: image => {
+      const size = image.width ? `|${image.width}${image.height ? `x${image.height}` : ''}` : '';
+      return withCaption(`![${escapeMarkdown(image.alt)}${size}](${linkDestination(image.src)})`, image.caption);
+    },
+  },
+  hugo: {
+    ...gfm,
+    name: 'hugo',
+    // Goldmark 默认不渲染原始 HTML，上下标和高亮使用 extras 扩展语法
+    superscript: content => `^${content}^`,
+    subscript: content => `~${content}~`,
+    highlight: content => `==${content}==`,
+    // passthrough 扩展的默认分隔符
+    inlineMath: tex => `\\(${tex}\\)`,
+    internalLink: link => {
+      const anchor = link.heading ? `#${headingSlug(link.heading)}` : '';
+      return `[${link.text}]({{< ref "${link.relativePath}.md${anchor}" >}})`;
+    },
+    // figure 短代码自带图注
+    figure: image => {
+      const params = [`src=${shortcodeValue(image.src)}`, `alt=${shortcodeValue(image.alt)}`];
+      if (image.width) params.push(`width=${shortcodeValue(String(image.width))}`);
+      if (image.height) params.push(`height=${shortcodeValue(String(image.height))}`);
+      if (image.caption) params.push(`caption=${shortcodeValue(image.caption)}`);
+      return `{{< figure ${params.join(' ')} >}}`;
+    },
+  },
+  docusaurus: {
+    ...gfm,
+    name: 'docusaurus',
+    codeTitle: true,
+    // Docusaurus v3 默认把 .md 文件也按 MDX 解析
+    mdx: true,
+    superscript: jsxTag('sup'),
+    subscript: jsxTag('sub'),
+    highlight: jsxTag('mark'),
+    collapsible: (title, body) => htmlDetails(title, body, true),
+    callout: (kind, title, body) => `:::${kind}${title ? `[${title}]` : ''}\n\n${body}\n\n:::`,
+  },
+};
+
+export function getDialect(name: string | null | undefined): DialectProfile {
+  return dialectProfiles[(name as Dialect)] || dialectProfiles[DEFAULT_DIALECT];
+}
+
+export function isDialect(name: string | null | undefined): name is Dialect {
+  return DIALECTS.includes(name as Dialect);
+}
@@ -0,0 +1,112 @@
+/**
+ * 输出文件命名
+ * 三种转换方式共用同一套命名策略，重名时按目录顺序追加稳定的序号，保证每次导出的文件名一致
+ */
+
+import { pinyin } from 'pinyin-pro';
+
+export type NamingStrategy = 'title' | 'slug' | 'id' | 'pinyin';
+
+export const NAMING_STRATEGIES: NamingStrategy[] = ['title', 'slug', 'id', 'pinyin'];
+
+export interface NameSource {
+  title: string;
+  slug?: string;
+  id?: number | string;
+}
+
+// Windows 保留的设备名，带扩展名时同样不可用
+const WINDOWS_RESERVED_RE = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+// 单个文件名的最大 UTF-8 字节数，为序号和扩展名留出余量
+const MAX_NAME_BYTES = 200;
+
+const encoder = new TextEncoder();
+
+function truncateBytes(name: string, maxBytes: number): string {
+  if (encoder.encode(name).length <= maxBytes) {
+    return name;
+  }
+
+  let result = '';
+  let bytes = 0;
+  for (const char of name) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > maxBytes) break;
+    result += char;
+    bytes += size;
+  }
+  return result;
+}
+
+export function sanitizeFileName(name: string): string {
+  let result = name
+    .replace(/[\u0000-\u001f\u007f]/g, '_')
+    .replace(/[\/\\ ?*<>|":]/g, '_');
+
+  result = truncateBytes(result, MAX_NAME_BYTES)
+    // Windows 不允许以点或空格结尾
+    .replace(/[. ]+$/, '');
+
+  if (!result) {
+    return 'untitled';
+  }
+  if (WINDOWS_RESERVED_RE.test(result)) {
+    return `${result}_`;
+  }
+  return result;
+}
+
+function transliterate(title: string): string {
+  return pinyin(title, { toneType: 'none', type: 'array', nonZh: 'consecutive' })
+    .join('-')
+    .toLowerCase()
+    // 拼音之间以及非文字字符统一用连字符分隔
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function isNamingStrategy(value: string | null | undefined): value is NamingStrategy {
+  return NAMING_STRATEGIES.includes(value as NamingStrategy);
+}
+
+export class FileNamer {
+  // 按目录记录已使用的名称，忽略大小写以兼容不区分大小写的文件系统
+  private used = new Set<string>();
+
+  /**
+   * @param reserved 根目录中已被占用的名称
+   */
+  constructor(private strategy: NamingStrategy = 'title', reserved: string[] = []) {
+    for (const name of reserved) {
+      this.used.add(`/${name}`.toLowerCase());
+    }
+  }
+
+  // 根据策略生成基础名称，缺少 slug 或 id 时退回标题
+  baseName(source: NameSource): string {
+    switch (this.strategy) {
+      case 'slug':
+        return sanitizeFileName(source.slug || source.title);
+      case 'id':
+        return sanitizeFileName(source.id !== undefined && source.id !== '' ? `${source.id}_${source.title}` : source.title);
+      case 'pinyin':
+        return sanitizeFileName(transliterate(source.title));
+      default:
+        return sanitizeFileName(source.title);
+    }
+  }
+
+  /**
+   * 返回 dir 目录下唯一的名称，重名时依次追加 -2、-3 …
+   */
+  name(source: NameSource, dir = ''): string {
+    const base = this.baseName(source);
+    let name = base;
+    for (let index = 2; this.used.has(`${dir}/${name}`.toLowerCase()); index++) {
+      name = `${base}-${index}`;
+    }
+    this.used.add(`${dir}/${name}`.toLowerCase());
+    return name;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * YAML front matter
+ * 从 lakebook 元数据或语雀接口返回的文档信息生成，供静态站点等下游流程使用
+ */
+
+import * as yaml from 'js-yaml';
+
+export type FrontMatterField = 'title' | 'slug' | 'id' | 'url' | 'book' | 'created' | 'updated' | 'wordCount' | 'breadcrumb';
+
+export const FRONT_MATTER_FIELDS: FrontMatterField[] = ['title', 'slug', 'id', 'url', 'book', 'created', 'updated', 'wordCount', 'breadcrumb'];
+
+export interface DocMeta {
+  title: string;
+  slug?: string;
+  id?: number | string;
+  url?: string;
+  book?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  wordCount?: number;
+  // 目录中的上级标题
+  breadcrumb?: string[];
+}
+
+// 输出到 YAML 中的键名
+const FIELD_KEYS: Record<FrontMatterField, string> = {
+  title: 'title',
+  slug: 'slug',
+  id: 'yuque_id',
+  url: 'source_url',
+  book: 'book',
+  created: 'date',
+  updated: 'lastmod',
+  wordCount: 'word_count',
+  breadcrumb: 'breadcrumb',
+};
+
+function getFieldValue(meta: DocMeta, field: FrontMatterField): unknown {
+  switch (field) {
+    case 'created':
+      return normalizeDate(meta.createdAt);
+    case 'updated':
+      return normalizeDate(meta.updatedAt);
+    case 'breadcrumb':
+      return meta.breadcrumb && meta.breadcrumb.length > 0 ? meta.breadcrumb : undefined;
+    default:
+      return meta[field];
+  }
+}
+
+function normalizeDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/**
+ * 解析 front matter 字段配置
+ * 空值或 "false" 表示关闭，"true" 表示全部字段，否则为逗号分隔的字段列表
+ */
+export function parseFrontMatterFields(value: string | boolean | null | undefined): FrontMatterField[] | null {
+  if (value === true || value === 'true') {
+    return FRONT_MATTER_FIELDS;
+  }
+  if (!value || value === 'false') {
+    return null;
+  }
+
+  const fields = value
+    .split(',')
+    .map(field => field.trim())
+    .filter((field): field is FrontMatterField => FRONT_MATTER_FIELDS.includes(field as FrontMatterField));
+  return fields.length > 0 ? fields : null;
+}
+
+export function buildFrontMatter(meta: DocMeta, fields: FrontMatterField[]): string {
+  const data: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = getFieldValue(meta, field);
+    if (value !== undefined && value !== null && value !== '') {
+      data[FIELD_KEYS[field]] = value;
+    }
+  }
+
+  if (Object.keys(data).length === 0) {
+    return '';
+  }
+  return `---\n${yaml.dump(data, { lineWidth: -1 })}---\n\n`;
+}
@@ -0,0 +1,293 @@
+/**
+ * 容错 HTML 解析器
+ * 支持单引号、无引号和布尔属性，隐式结束标签，CDATA 以及 script/style/textarea 等原始文本元素。
+ * 单次扫描，正则均使用 sticky 模式从当前位置匹配，整体为线性时间
+ */
+
+import { decodeHTMLAttribute } from 'entities';
+
+export interface Node {
+  type: 'root' | 'element' | 'text';
+  tagName?: string;
+  attributes?: Record<string, string>;
+  children?: Node[];
+  content?: string;
+}
+
+// 自闭合标签
+export const VOID_TAGS = ['img', 'br', 'hr', 'input', 'meta', 'link', 'area', 'base', 'col', 'embed', 'param', 'source', 'track', 'wbr'];
+
+// 内容不解析为标签的元素
+const RAW_TEXT_TAGS = ['script', 'style', 'textarea', 'title', 'xmp'];
+
+// 空白文本需要原样保留的元素
+const PREFORMATTED_TAGS = ['pre', 'textarea', 'code'];
+
+// 开始标签会隐式关闭打开的 <p>
+const CLOSES_P = [
+  'address', 'article', 'aside', 'blockquote', 'details', 'dialog', 'div', 'dl', 'dd', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr',
+  'li', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul',
+];
+
+interface ImpliedEndRule {
+  // 遇到该开始标签时需要关闭的元素
+  closes: string[];
+  // 向上查找到这些元素时停止
+  boundaries: string[];
+}
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+const IMPLIED_END_RULES: Record<string, ImpliedEndRule> = {
+  li: { closes: ['li'], boundaries: ['ul', 'ol', 'menu', 'table', 'td', 'th'] },
+  dt: { closes: ['dt', 'dd'], boundaries: ['dl', 'table', 'td', 'th'] },
+  dd: { closes: ['dt', 'dd'], boundaries: ['dl', 'table', 'td', 'th'] },
+  tr: { closes: ['tr'], boundaries: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], boundaries: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], boundaries: ['tr', 'table'] },
+  thead: { closes: ['thead', 'tbody', 'tfoot'], boundaries: ['table'] },
+  tbody: { closes: ['thead', 'tbody', 'tfoot'], boundaries: ['table'] },
+  tfoot: { closes: ['thead', 'tbody', 'tfoot'], boundaries: ['table'] },
+  option: { closes: ['option'], boundaries: ['select', 'datalist'] },
+};
+
+// 关闭 <p> 时的作用域边界
+const P_BOUNDARIES = ['table', 'td', 'th', 'button', 'caption', 'object', 'template'];
+
+const TAG_NAME_RE = /[a-zA-Z][^\s\/>]*/y;
+const ATTR_NAME_RE = /[^\s"'>\/=]+/y;
+const ATTR_VALUE_RE = /\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))?/y;
+const WHITESPACE_RE = /\s*/y;
+
+class HtmlParser {
+  private html: string;
+  private pos = 0;
+  private root: Node = { type: 'root', children: [] };
+  private stack: Node[] = [this.root];
+  // 各标签在栈中打开的数量，避免每次都遍历整个栈
+  private openCounts: Record<string, number> = {};
+
+  constructor(html: string) {
+    this.html = html;
+  }
+
+  parse(): Node {
+    const html = this.html;
+    while (this.pos < html.length) {
+      const lt = html.indexOf('<', this.pos);
+      if (lt === -1) {
+        this.addText(html.slice(this.pos));
+        break;
+      }
+      if (lt > this.pos) {
+        this.addText(html.slice(this.pos, lt));
+        this.pos = lt;
+      }
+
+      const next = html[lt + 1];
+      if (html.startsWith('<!--', lt)) {
+        this.skipUntil('-->', lt + 4);
+      } else if (html.startsWith('<![CDATA[', lt)) {
+        this.parseCData();
+      } else if (next === '!' || next === '?') {
+        // doctype 与处理指令
+        this.skipUntil('>', lt + 2);
+      } else if (next === '/') {
+        this.parseEndTag();
+      } else if (next && /[a-zA-Z]/.test(next)) {
+        this.parseStartTag();
+      } else {
+        // 不构成标签的 '<' 按普通文本处理
+        this.addText('<');
+        this.pos = lt + 1;
+      }
+    }
+    return this.root;
+  }
+
+  private get current(): Node {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private skipUntil(terminator: string, from: number): void {
+    const end = this.html.indexOf(terminator, from);
+    this.pos = end === -1 ? this.html.length : end + terminator.length;
+  }
+
+  private addText(text: string): void {
+    if (!text) return;
+    const parent = this.current;
+    const preformatted = PREFORMATTED_TAGS.some(tag => this.openCounts[tag] > 0);
+    if (!preformatted && !text.trim() && !text.includes(' ')) return;
+
+    parent.children = parent.children || [];
+    const last = parent.children[parent.children.length - 1];
+    if (last && last.type === 'text') {
+      last.content += text;
+    } else {
+      parent.children.push({ type: 'text', content: text });
+    }
+  }
+
+  private appendElement(node: Node): void {
+    const parent = this.current;
+    parent.children = parent.children || [];
+    parent.children.push(node);
+  }
+
+  private parseCData(): void {
+    const start = this.pos + 9;
+    const end = this.html.indexOf(']]>', start);
+    const content = this.html.slice(start, end === -1 ? this.html.length : end);
+    this.pos = end === -1 ? this.html.length : end + 3;
+    // CDATA 内容不做实体解码，预先转义 & 以便后续解码后还原
+    this.addText(content.replace(/&/g, '&amp;'));
+  }
+
+  private parseStartTag(): void {
+    const html = this.html;
+    TAG_NAME_RE.lastIndex = this.pos + 1;
+    const tagName = TAG_NAME_RE.exec(html)![0].toLowerCase();
+    let pos = TAG_NAME_RE.lastIndex;
+
+    const attributes: Record<string, string> = {};
+    let selfClosing = false;
+    while (pos < html.length) {
+      WHITESPACE_RE.lastIndex = pos;
+      WHITESPACE_RE.exec(html);
+      pos = WHITESPACE_RE.lastIndex;
+
+      const ch = html[pos];
+      if (ch === '>') {
+        pos++;
+        break;
+      }
+      if (ch === '/') {
+        selfClosing = html[pos + 1] === '>';
+        pos++;
+        continue;
+      }
+
+      ATTR_NAME_RE.lastIndex = pos;
+      const nameMatch = ATTR_NAME_RE.exec(html);
+      if (!nameMatch) {
+        // 属性名位置出现引号等非法字符，跳过
+        pos++;
+        continue;
+      }
+      pos = ATTR_NAME_RE.lastIndex;
+
+      ATTR_VALUE_RE.lastIndex = pos;
+      const valueMatch = ATTR_VALUE_RE.exec(html);
+      let value = '';
+      if (valueMatch && valueMatch[0].includes('=')) {
+        value = valueMatch[1] ?? valueMatch[2] ?? valueMatch[3] ?? '';
+        pos = ATTR_VALUE_RE.lastIndex;
+      }
+
+      const name = nameMatch[0].toLowerCase();
+      if (!(name in attributes)) {
+        attributes[name] = decodeHTMLAttribute(value);
+      }
+    }
+    this.pos = pos;
+
+    this.closeImplied(tagName);
+
+    const node: Node = { type: 'element', tagName, attributes, children: [] };
+    this.appendElement(node);
+
+    if (VOID_TAGS.includes(tagName) || selfClosing) {
+      return;
+    }
+
+    if (RAW_TEXT_TAGS.includes(tagName)) {
+      this.parseRawText(node);
+      return;
+    }
+
+    this.stack.push(node);
+    this.openCounts[tagName] = (this.openCounts[tagName] || 0) + 1;
+  }
+
+  // 弹出栈中 index 及以上的元素
+  private popTo(index: number): void {
+    while (this.stack.length > index) {
+      const node = this.stack.pop()!;
+      this.openCounts[node.tagName || '']--;
+    }
+  }
+
+  private parseRawText(node: Node): void {
+    const endTag = new RegExp(`</${node.tagName}[\\s/>]`, 'ig');
+    endTag.lastIndex = this.pos;
+    const match = endTag.exec(this.html);
+    const end = match ? match.index : this.html.length;
+    const content = this.html.slice(this.pos, end);
+    if (content) {
+      node.children = [{ type: 'text', content }];
+    }
+    this.pos = end;
+    if (match) {
+      this.skipUntil('>', end);
+    }
+  }
+
+  private parseEndTag(): void {
+    TAG_NAME_RE.lastIndex = this.pos + 2;
+    const match = TAG_NAME_RE.exec(this.html);
+    this.skipUntil('>', this.pos + 2);
+    if (!match) return;
+
+    const tagName = match[0].toLowerCase();
+    if (tagName === 'br') {
+      // </br> 按 <br> 处理
+      this.appendElement({ type: 'element', tagName: 'br', attributes: {}, children: [] });
+      return;
+    }
+
+    // 找不到对应开始标签的结束标签直接忽略
+    const index = this.findOpen([tagName], []);
+    if (index > 0) {
+      this.popTo(index);
+    }
+  }
+
+  // 根据开始标签隐式关闭未闭合的元素，如 <li> 关闭上一个 <li>、块级元素关闭 <p>
+  private closeImplied(tagName: string): void {
+    if (CLOSES_P.includes(tagName)) {
+      const index = this.findOpen(['p'], P_BOUNDARIES);
+      if (index > 0) {
+        this.popTo(index);
+      }
+    }
+
+    if (HEADINGS.includes(tagName) && HEADINGS.includes(this.current.tagName || '')) {
+      this.popTo(this.stack.length - 1);
+    }
+
+    const rule = IMPLIED_END_RULES[tagName];
+    if (rule) {
+      const index = this.findOpen(rule.closes, rule.boundaries);
+      if (index > 0) {
+        this.popTo(index);
+      }
+    }
+  }
+
+  // 自栈顶向下查找打开的元素，返回其在栈中的位置，遇到边界元素或找不到时返回 -1
+  private findOpen(tagNames: string[], boundaries: string[]): number {
+    if (!tagNames.some(tag => this.openCounts[tag] > 0)) return -1;
+    for (let i = this.stack.length - 1; i > 0; i--) {
+      const name = this.stack[i].tagName || '';
+      if (tagNames.includes(name)) return i;
+      if (boundaries.includes(name)) return -1;
+    }
+    return -1;
+  }
+}
+
+export function parseHtml(html: string): Node {
+  return new HtmlParser(html).parse();
+}
@@ -1,329 +1,205 @@
 /**
  * HTML to Markdown converter
- * 简化版的 markdownify 实现
+ * 简化版的 markdownify 实现，转换逻辑由可插拔的规则组成
  */
 
-interface ConvertOptions {
+import { Dialect, DEFAULT_DIALECT } from './dialects';
+import { parseHtml, Node } from './html-parser';
+import { LakeCard, parseCard } from './lake-cards';
+import { defaultRules } from './rules';
+
+export type { Node } from './html-parser';
+export type { LakeCard } from './lake-cards';
+export { cardValue } from './lake-cards';
+
+export interface ConvertOptions {
   headingStyle?: 'ATX' | 'SETEXT';
+  // 输出的 Markdown 方言
+  dialect?: Dialect;
+  // 含 colspan/rowspan 的表格：展开为 GFM 表格，或保留为 HTML 表格
+  mergedCells?: 'expand' | 'html';
+  // 图片尺寸：none 不保留，html 输出 <img width>，dialect 使用方言语法（Obsidian |宽度、Hugo figure），不支持时输出 HTML
+  imageSize?: 'none' | 'html' | 'dialect';
+  // 公式卡片缺少 LaTeX 源码时使用语雀渲染的图片
+  mathImageFallback?: boolean;
+  // 按名称覆盖内置规则或追加自定义规则，值为 null 时移除同名规则
+  rules?: Record<string, Rule | null>;
+  // 改写链接，返回 null 时按普通链接输出
+  resolveLink?: (href: string, text: string) => string | null;
+  // 改写图片、附件等资源地址，返回 null 时保留原地址
+  resolveAsset?: (url: string) => string | null;
+  // 转换到带 id 的标题时回调，用于解析指向标题的锚点
+  onHeading?: (id: string, text: string) => void;
+  // 遇到未支持的卡片或没有对应规则的标签时回调
+  onUnknown?: (kind: 'card' | 'tag', name: string) => void;
+  // 输出附属文件（如画板数据），返回文档中引用该文件的相对路径；未提供时不输出附属文件
+  emitFile?: (fileName: string, content: string | Uint8Array) => string;
 }
 
 const defaultOptions: ConvertOptions = {
   headingStyle: 'ATX',
+  dialect: DEFAULT_DIALECT,
+  mergedCells: 'expand',
+  imageSize: 'none',
 };
 
-// 简单的 HTML 实体解码
-function decodeHtmlEntities(text: string): string {
-  const entities: Record<string, string> = {
-    '&amp;': '&',
-    '&lt;': '<',
-    '&gt;': '>',
-    '&quot;': '"',
-    '&#39;': "'",
-    '&nbsp;': ' ',
-    '&copy;': '©',
-    '&reg;': '®',
-    '&trade;': '™',
-    '&mdash;': '—',
-    '&ndash;': '–',
-    '&hellip;': '…',
-    '&lsquo;': "'",
-    '&rsquo;': "'",
-    '&ldquo;': '"',
-    '&rdquo;': '"',
-  };
-
-  let result = text;
-  for (const [entity, char] of Object.entries(entities)) {
-    result = result.replace(new RegExp(entity, 'g'), char);
-  }
+// 没有对应规则、直接输出子节点内容的常见标签，不计入未支持的标签
+const CONTAINER_TAGS = new Set([
+  'html', 'head', 'body', 'title', 'meta', 'link', 'div', 'span', 'section', 'article', 'main', 'header',
+  'footer', 'nav', 'aside', 'figure', 'figcaption', 'font', 'u', 'ins', 'small', 'big', 'center', 'label',
+  'abbr', 'cite', 'dfn', 'kbd', 'samp', 'var', 'q', 'time', 'bdi', 'bdo', 'wbr', 'thead', 'tbody', 'tfoot',
+  'tr', 'td', 'th', 'caption', 'colgroup', 'col', 'summary', 'source', 'picture',
+]);
+
+export interface RuleContext {
+  node: Node;
+  // 从根节点到父节点的祖先链
+  ancestors: Node[];
+  options: ConvertOptions;
+  // 子节点转换后的 Markdown，首次访问时才转换
+  readonly children: string;
+  // 当前节点为 <card> 时解析出的卡片数据
+  readonly card: LakeCard | null;
+  // 转换任意节点，ancestors 默认为当前节点的祖先链加上当前节点
+  convert(node: Node, ancestors?: Node[]): string;
+}
 
-  // 处理数字实体
-  result = result.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)));
-  result = result.replace(/&#x([0-9a-fA-F]+);/g, (_, code) => String.fromCharCode(parseInt(code, 16)));
+export interface RuleFilter {
+  tagName?: string | string[];
+  // 属性值为 true 时只要求属性存在
+  attributes?: Record<string, string | RegExp | true>;
+  // 匹配 <card name="..."> 的卡片名
+  cardName?: string | string[];
+}
 
-  return result;
+export interface Rule {
+  // 对象形式只匹配元素节点，函数形式可匹配任意节点（包括文本节点）
+  filter: RuleFilter | ((node: Node, ancestors: Node[]) => boolean);
+  replacement: (ctx: RuleContext) => string;
 }
 
-// 简单的 HTML 解析器
-class SimpleHtmlParser {
-  private html: string;
-  private pos: number;
+function includesValue(expected: string | string[], value: string): boolean {
+  return Array.isArray(expected) ? expected.includes(value) : expected === value;
+}
 
-  constructor(html: string) {
-    this.html = html;
-    this.pos = 0;
+function matchesFilter(filter: Rule['filter'], node: Node, ancestors: Node[]): boolean {
+  if (typeof filter === 'function') {
+    return filter(node, ancestors);
   }
-
-  parse(): Node {
-    const root: Node = { type: 'root', children: [] };
-    this.parseChildren(root);
-    return root;
+  if (node.type !== 'element') {
+    return false;
   }
 
-  private parseChildren(parent: Node): void {
-    while (this.pos < this.html.length) {
-      if (this.html[this.pos] === '<') {
-        if (this.html.substring(this.pos, this.pos + 2) === '</') {
-          return; // 结束标签
-        }
-        if (this.html.substring(this.pos, this.pos + 4) === '<!--') {
-          this.skipComment();
-          continue;
-        }
-        const element = this.parseElement();
-        if (element) {
-          parent.children = parent.children || [];
-          parent.children.push(element);
-        }
-      } else {
-        const text = this.parseText();
-        if (text.trim() || text.includes(' ')) {
-          parent.children = parent.children || [];
-          parent.children.push({ type: 'text', content: text });
-        }
-      }
-    }
+  const tagName = node.tagName || '';
+  const attrs = node.attributes || {};
+  if (filter.tagName && !includesValue(filter.tagName, tagName)) {
+    return false;
   }
-
-  private skipComment(): void {
-    const end = this.html.indexOf('-->', this.pos);
-    if (end !== -1) {
-      this.pos = end + 3;
-    } else {
-      this.pos = this.html.length;
+  if (filter.cardName && (tagName !== 'card' || !includesValue(filter.cardName, attrs.name || ''))) {
+    return false;
+  }
+  for (const [name, expected] of Object.entries(filter.attributes || {})) {
+    const value = attrs[name];
+    if (value === undefined) return false;
+    if (expected instanceof RegExp ? !expected.test(value) : expected !== true && expected !== value) {
+      return false;
     }
   }
+  return true;
+}
 
-  private parseElement(): Node | null {
-    const start = this.pos;
-    this.pos++; // skip '<'
-
-    // 解析标签名
-    const tagNameMatch = this.html.substring(this.pos).match(/^([a-zA-Z0-9]+)/);
-    if (!tagNameMatch) {
-      return null;
-    }
-    const tagName = tagNameMatch[1].toLowerCase();
-    this.pos += tagName.length;
+export class MarkdownConverter {
+  private options: ConvertOptions;
+  private rules: Array<[string, Rule]>;
 
-    // 解析属性
-    const attributes: Record<string, string> = {};
-    while (this.pos < this.html.length && this.html[this.pos] !== '>' && this.html[this.pos] !== '/') {
-      this.skipWhitespace();
-      if (this.html[this.pos] === '>' || this.html[this.pos] === '/') break;
+  constructor(options: ConvertOptions = {}) {
+    this.options = { ...defaultOptions, ...options };
+    this.rules = [...defaultRules];
 
-      const attrMatch = this.html.substring(this.pos).match(/^([a-zA-Z0-9_-]+)(?:="([^"]*)")?/);
-      if (attrMatch) {
-        attributes[attrMatch[1]] = attrMatch[2] || '';
-        this.pos += attrMatch[0].length;
+    for (const [name, rule] of Object.entries(options.rules || {})) {
+      if (rule) {
+        this.addRule(name, rule);
       } else {
-        this.pos++;
+        this.removeRule(name);
       }
     }
+  }
 
-    // 自闭合标签
-    const selfClosing = ['img', 'br', 'hr', 'input', 'meta', 'link', 'area', 'base', 'col', 'embed', 'param', 'source', 'track', 'wbr'];
-    if (this.html[this.pos] === '/') {
-      this.pos++;
-    }
-    if (this.html[this.pos] === '>') {
-      this.pos++;
-    }
-
-    const node: Node = {
-      type: 'element',
-      tagName,
-      attributes,
-      children: [],
-    };
-
-    if (!selfClosing.includes(tagName)) {
-      this.parseChildren(node);
-
-      // 跳过结束标签
-      const endTag = `</${tagName}>`;
-      const endPos = this.html.toLowerCase().indexOf(endTag.toLowerCase(), this.pos);
-      if (endPos !== -1) {
-        this.pos = endPos + endTag.length;
-      }
+  // 同名规则原位替换，新规则优先于已有规则匹配
+  addRule(name: string, rule: Rule): this {
+    const index = this.rules.findIndex(([ruleName]) => ruleName === name);
+    if (index !== -1) {
+      this.rules[index] = [name, rule];
+    } else {
+      this.rules.unshift([name, rule]);
     }
-
-    return node;
+    return this;
   }
 
-  private parseText(): string {
-    let text = '';
-    while (this.pos < this.html.length && this.html[this.pos] !== '<') {
-      text += this.html[this.pos];
-      this.pos++;
-    }
-    return text;
+  removeRule(name: string): this {
+    this.rules = this.rules.filter(([ruleName]) => ruleName !== name);
+    return this;
   }
 
-  private skipWhitespace(): void {
-    while (this.pos < this.html.length && /\s/.test(this.html[this.pos])) {
-      this.pos++;
-    }
+  getRule(name: string): Rule | undefined {
+    return this.rules.find(([ruleName]) => ruleName === name)?.[1];
   }
-}
 
-interface Node {
-  type: 'root' | 'element' | 'text';
-  tagName?: string;
-  attributes?: Record<string, string>;
-  children?: Node[];
-  content?: string;
-}
+  convert(html: string): string {
+    if (!html || !html.trim()) {
+      return '';
+    }
 
-function nodeToMarkdown(node: Node, options: ConvertOptions): string {
-  if (node.type === 'text') {
-    return decodeHtmlEntities(node.content || '');
+    const tree = parseHtml(html);
+    return this.convertNode(tree, []);
   }
 
-  if (node.type === 'root') {
-    return (node.children || []).map(child => nodeToMarkdown(child, options)).join('');
+  private convertChildren(node: Node, ancestors: Node[]): string {
+    const path = [...ancestors, node];
+    return (node.children || []).map(child => this.convertNode(child, path)).join('');
   }
 
-  const tagName = node.tagName || '';
-  const children = (node.children || []).map(child => nodeToMarkdown(child, options)).join('');
-  const attrs = node.attributes || {};
-
-  switch (tagName) {
-    case 'h1':
-      return options.headingStyle === 'ATX' ? `\n# ${children.trim()}\n\n` : `\n${children.trim()}\n${'='.repeat(children.trim().length)}\n\n`;
-    case 'h2':
-      return options.headingStyle === 'ATX' ? `\n## ${children.trim()}\n\n` : `\n${children.trim()}\n${'-'.repeat(children.trim().length)}\n\n`;
-    case 'h3':
-      return `\n### ${children.trim()}\n\n`;
-    case 'h4':
-      return `\n#### ${children.trim()}\n\n`;
-    case 'h5':
-      return `\n##### ${children.trim()}\n\n`;
-    case 'h6':
-      return `\n###### ${children.trim()}\n\n`;
-
-    case 'p':
-      return `\n${children}\n\n`;
-
-    case 'br':
-      return '\n';
-
-    case 'hr':
-      return '\n---\n\n';
-
-    case 'strong':
-    case 'b':
-      return `**${children}**`;
-
-    case 'em':
-    case 'i':
-      return `*${children}*`;
-
-    case 'code':
-      return `\`${children}\``;
-
-    case 'pre':
-      // 检查是否有 data-language 属性
-      const lang = attrs['data-language'] || attrs['class']?.match(/language-(\w+)/)?.[1] || '';
-      const codeContent = children.replace(/^\n+|\n+$/g, '');
-      return `\n\`\`\`${lang}\n${codeContent}\n\`\`\`\n\n`;
-
-    case 'blockquote':
-      const lines = children.trim().split('\n');
-      return '\n' + lines.map(line => `> ${line}`).join('\n') + '\n\n';
-
-    case 'ul':
-      return `\n${children}\n`;
-
-    case 'ol':
-      return `\n${children}\n`;
-
-    case 'li':
-      // 检查父元素类型来决定使用哪种标记
-      return `- ${children.trim()}\n`;
-
-    case 'a':
-      const href = attrs.href || '';
-      const title = attrs.title ? ` "${attrs.title}"` : '';
-      if (!href) return children;
-      return `[${children}](${href}${title})`;
-
-    case 'img':
-      const src = attrs.src || '';
-      const alt = attrs.alt || '';
-      const imgTitle = attrs.title ? ` "${attrs.title}"` : '';
-      return `![${alt}](${src}${imgTitle})`;
-
-    case 'table':
-      return `\n${children}\n`;
-
-    case 'thead':
-      return children;
-
-    case 'tbody':
-      return children;
-
-    case 'tr':
-      const cells = (node.children || [])
-        .filter(child => child.tagName === 'td' || child.tagName === 'th')
-        .map(child => nodeToMarkdown(child, options).trim());
-
-      // 检查是否是表头行
-      const isHeader = (node.children || []).some(child => child.tagName === 'th');
-      const row = `| ${cells.join(' | ')} |\n`;
+  private convertNode(node: Node, ancestors: Node[]): string {
+    if (node.type === 'root') {
+      return this.convertChildren(node, ancestors);
+    }
 
-      if (isHeader) {
-        const separator = `| ${cells.map(() => '---').join(' | ')} |\n`;
-        return row + separator;
+    const rule = this.rules.find(([, candidate]) => matchesFilter(candidate.filter, node, ancestors))?.[1];
+    if (!rule) {
+      if (node.type === 'text') {
+        return node.content || '';
       }
-      return row;
-
-    case 'td':
-    case 'th':
-      return children;
-
-    case 'del':
-    case 's':
-    case 'strike':
-      return `~~${children}~~`;
-
-    case 'sup':
-      return `^${children}^`;
-
-    case 'sub':
-      return `~${children}~`;
-
-    case 'div':
-    case 'span':
-    case 'section':
-    case 'article':
-    case 'header':
-    case 'footer':
-    case 'main':
-    case 'aside':
-    case 'nav':
-      return children;
-
-    case 'script':
-    case 'style':
-    case 'noscript':
-      return '';
+      if (!CONTAINER_TAGS.has(node.tagName || '')) {
+        this.options.onUnknown?.('tag', node.tagName || '');
+      }
+      return this.convertChildren(node, ancestors);
+    }
 
-    default:
-      return children;
+    const converter = this;
+    let children: string | undefined;
+    let card: LakeCard | null | undefined;
+    const ctx: RuleContext = {
+      node,
+      ancestors,
+      options: this.options,
+      get children() {
+        if (children === undefined) {
+          children = converter.convertChildren(node, ancestors);
+        }
+        return children;
+      },
+      get card() {
+        if (card === undefined) {
+          card = node.tagName === 'card' ? parseCard(node.attributes || {}) : null;
+        }
+        return card;
+      },
+      convert: (target, targetAncestors = [...ancestors, node]) => this.convertNode(target, targetAncestors),
+    };
+    return rule.replacement(ctx);
   }
 }
 
 export function htmlToMarkdown(html: string, options: ConvertOptions = {}): string {
-  const mergedOptions = { ...defaultOptions, ...options };
-
-  if (!html || !html.trim()) {
-    return '';
-  }
-
-  const parser = new SimpleHtmlParser(html);
-  const tree = parser.parse();
-  const markdown = nodeToMarkdown(tree, mergedOptions);
-
-  return markdown;
+  return new MarkdownConverter(options).convert(html);
 }
@@ -6,11 +6,28 @@
 
 import JSZip from 'jszip';
 import * as yaml from 'js-yaml';
-import { htmlToMarkdown } from './html-to-md';
-import { ungzip } from 'pako';
+import { htmlToMarkdown, ConvertOptions } from './html-to-md';
+import { isDialect, DEFAULT_DIALECT } from './dialects';
+import { buildFrontMatter, parseFrontMatterFields, DocMeta, FrontMatterField } from './front-matter';
+import { BookLinker } from './links';
+import { FileNamer, isNamingStrategy, NamingStrategy } from './file-naming';
+import { AssetStore } from './assets';
+import { ConversionReport, DocReport, REPORT_NAME } from './report';
+import { DEFAULT_SHEET_PREVIEW_ROWS, isSheetDoc, parseSheetBody, sheetCsvNames, sheetPreviewHtml, sheetToCsv } from './sheets';
+import { gunzip, readTar, TarEntry, TarError } from './tar';
+import { ArchiveWriter, ZipStreamWriter } from './zip-stream';
+import { DEFAULT_JOB_TTL_HOURS, Job, JobMessage, JobStore } from './jobs';
+import { NDJSON_TYPE, ProgressListener, ProgressStream } from './progress';
+import { MultipartError, readFormUpload } from './multipart';
 
 export interface Env {
   DOWNLOAD_IMAGES: string;
+  // 异步任务使用的 R2 存储桶，未配置时不提供异步任务接口
+  LAKEBOOK_BUCKET?: R2Bucket;
+  // 异步任务结束后保留结果的小时数
+  JOB_TTL_HOURS?: string;
+  // 执行异步任务的队列，与 LAKEBOOK_BUCKET 都配置后才提供异步任务接口
+  JOB_QUEUE?: Queue<JobMessage>;
 }
 
 interface TocItem {
@@ -18,25 +35,80 @@ interface TocItem {
   url?: string;
   level?: number;
   title?: string;
+  doc_id?: number;
+  uuid?: string;
+}
+
+// 目录树中的节点，docCount 和 size 包含所有子节点
+interface TocNode {
+  // 目录节点的 uuid，缺少时为文档 url，用于选择导出范围
+  id: string;
+  title: string;
+  type: string;
+  url?: string;
+  docCount: number;
+  // 文档原始数据的字节数
+  size: number;
+  children: TocNode[];
 }
 
 interface MetaFile {
   meta: string;
 }
 
+// MetaFile.meta 解析后的内容
+interface LakebookMeta {
+  book?: BookInfo & { tocYml?: string };
+}
+
 interface DocFile {
   doc: {
+    id?: number;
+    slug?: string;
+    title?: string;
     body?: string;
     body_asl?: string;
+    // 文档类型：Doc、Sheet、Table 等
+    type?: string;
+    format?: string;
+    created_at?: string;
+    updated_at?: string;
+    content_updated_at?: string;
+    word_count?: number;
   };
 }
 
+interface BookInfo {
+  id?: number;
+  name?: string;
+  slug?: string;
+  namespace?: string;
+}
+
+interface ExportOptions {
+  // 下载图片、附件和音视频到 ZIP 中
+  downloadImages: boolean;
+  // 单个资源的大小上限（字节），超过时保留原地址
+  maxAssetSize?: number;
+  naming: NamingStrategy;
+  convertOptions: ConvertOptions;
+  // 为 null 时不输出 front matter
+  frontMatter: FrontMatterField[] | null;
+  // 表格文档预览的最大行数
+  sheetPreviewRows?: number;
+  // 接收转换进度事件
+  onProgress?: ProgressListener;
+  // 只导出这些目录节点：uuid 表示该节点及其所有子节点，文档 url 只表示该文档，未指定时导出全部
+  include?: string[];
+}
+
 interface YuqueTocItem {
   type: string;
   title: string;
   url: string;
   level: number;
   doc_id?: number;
+  uuid?: string;
 }
 
 interface YuqueAppData {
@@ -48,33 +120,32 @@ interface YuqueAppData {
   };
 }
 
+interface YuqueDoc {
+  id?: number;
+  slug: string;
+  title: string;
+  content: string;
+  createdAt?: string;
+  updatedAt?: string;
+  wordCount?: number;
+}
+
 const TYPE_DOC = 'DOC';
+// 目录中的表格文档类型
+const SHEET_TYPES = ['SHEET', 'TABLE'];
 const META_JSON = '$meta.json';
 
-const contentTypeToExtension: Record<string, string> = {
-  'image/gif': '.gif',
-  'image/jpeg': '.jpg',
-  'image/svg+xml': '.svg',
-  'image/png': '.png',
-  'image/webp': '.webp',
-};
 
-function sanitizeFileName(name: string): string {
-  return name
-    .replace(/\//g, '_')
-    .replace(/\\/g, '_')
-    .replace(/ /g, '_')
-    .replace(/\?/g, '_')
-    .replace(/\*/g, '_')
-    .replace(/</g, '_')
-    .replace(/>/g, '_')
-    .replace(/\|/g, '_')
-    .replace(/"/g, '_')
-    .replace(/:/g, '_');
-}
+// 围栏代码块，结束围栏与开始围栏相同
+const FENCED_BLOCK_RE = /^([ \t]*)(`{3,}|~{3,})[^\n]*\n[\s\S]*?\n[ \t]*\2[ \t]*$/gm;
 
 function prettyMd(text: string): string {
-  let output = text;
+  // 代码块内的空白原样保留，整理完其余内容后再放回
+  const blocks: string[] = [];
+  let output = text.replace(FENCED_BLOCK_RE, block => {
+    blocks.push(block);
+    return `\u0000code-block:${blocks.length - 1}\u0000`;
+  });
 
   const lines = output.split('\n');
   for (let i = 0; i < lines.length; i++) {
@@ -89,7 +160,7 @@ function prettyMd(text: string): string {
     }
   }
 
-  return output;
+  return output.replace(/\u0000code-block:(\d+)\u0000/g, (_, index) => blocks[Number(index)]);
 }
 
 // ============ 语雀 URL 解析和抓取 ============
@@ -129,7 +200,7 @@ function extractAppData(html: string): YuqueAppData | null {
 }
 
 // 获取知识库页面并提取数据
-async function fetchYuqueBookData(namespace: string, book: string): Promise<{ bookId: number; toc: YuqueTocItem[] }> {
+async function fetchYuqueBookData(namespace: string, book: string): Promise<{ bookId: number; bookName: string; toc: YuqueTocItem[] }> {
   const url = `https://www.yuque.com/${namespace}/${book}`;
   const response = await fetch(url, {
     headers: {
@@ -167,12 +238,13 @@ async function fetchYuqueBookData(namespace: string, book: string): Promise<{ bo
 
   return {
     bookId: appData.book.id,
+    bookName: appData.book.name,
     toc: appData.book.toc || [],
   };
 }
 
 // 获取单篇文档内容
-async function fetchYuqueDoc(bookId: number, slug: string, referer: string): Promise<{ title: string; content: string }> {
+async function fetchYuqueDoc(bookId: number, slug: string, referer: string): Promise<YuqueDoc> {
   const url = `https://www.yuque.com/api/docs/${slug}?book_id=${bookId}`;
 
   const response = await fetch(url, {
@@ -200,8 +272,25 @@ async function fetchYuqueDoc(bookId: number, slug: string, referer: string): Pro
   const data = await response.json() as any;
 
   return {
+    id: data.data?.id,
+    slug,
     title: data.data?.title || slug,
     content: data.data?.content || data.data?.body || data.data?.body_asl || '',
+    createdAt: data.data?.created_at,
+    updatedAt: data.data?.content_updated_at || data.data?.updated_at,
+    wordCount: data.data?.word_count,
+  };
+}
+
+function yuqueDocMeta(doc: YuqueDoc, url: string): DocMeta {
+  return {
+    title: doc.title,
+    slug: doc.slug,
+    id: doc.id,
+    url,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+    wordCount: doc.wordCount,
   };
 }
 
@@ -216,9 +305,73 @@ function lakeToHtml(lakeContent: string): string {
   return html;
 }
 
+// 生成单篇文档的 Markdown，按配置在开头加上 front matter
+function renderMarkdown(html: string, meta: DocMeta, options: ExportOptions, docOptions: ConvertOptions = {}): string {
+  const markdown = prettyMd(htmlToMarkdown(html, { ...options.convertOptions, ...docOptions }));
+  return options.frontMatter ? buildFrontMatter(meta, options.frontMatter) + markdown.replace(/^\n+/, '') : markdown;
+}
+
+// 将转换过程中产生的附属文件写入文档同级的 attachments 目录，返回文档中使用的相对路径
+function fileEmitter(zip: ArchiveWriter, outputDirPath: string, sanitizedTitle: string): ConvertOptions['emitFile'] {
+  const used = new Map<string, number>();
+  return (fileName, content) => {
+    const count = (used.get(fileName) || 0) + 1;
+    used.set(fileName, count);
+    const name = count > 1 ? fileName.replace(/(\.[^.]*)?$/, `_${count}$1`) : fileName;
+    const attachPath = `attachments/${sanitizedTitle}_${name}`;
+    zip.file(outputDirPath ? `${outputDirPath}/${attachPath}` : attachPath, content);
+    return `./${attachPath}`;
+  };
+}
+
+// 下载文档中的资源并把失败的资源记入报告，返回转换时使用的资源地址回调
+async function localizeAssets(
+  assets: AssetStore,
+  html: string,
+  outputDirPath: string,
+  options: ExportOptions,
+  report: ConversionReport,
+  entry: DocReport
+): Promise<ConvertOptions> {
+  if (!options.downloadImages || !html) {
+    return {};
+  }
+  const { resolveAsset, failures } = await assets.localize(html, outputDirPath);
+  report.addAssetFailures(entry, failures);
+  return { resolveAsset };
+}
+
+function assetStore(zip: ArchiveWriter, options: ExportOptions): AssetStore {
+  return new AssetStore(zip, {
+    maxSize: options.maxAssetSize,
+    onAsset: options.onProgress && ((asset, failure) => options.onProgress!({
+      type: 'asset',
+      url: asset.url,
+      kind: asset.kind,
+      status: failure ? 'failed' : 'downloaded',
+      reason: failure?.reason,
+    })),
+  });
+}
+
+// 一篇文档处理完毕后发送进度和该文档的警告
+function reportDocProgress(options: ExportOptions, entry: DocReport, done: number, total: number): void {
+  const { onProgress } = options;
+  if (!onProgress) return;
+  onProgress({ type: 'doc', title: entry.title, path: entry.path, status: entry.status, error: entry.error, done, total });
+  for (const message of entry.warnings) {
+    onProgress({ type: 'warning', doc: entry.path || entry.title, message });
+  }
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
 async function convertYuqueUrlToMarkdown(
   yuqueUrl: string,
-  downloadImages: boolean
+  options: ExportOptions,
+  report: ConversionReport
 ): Promise<JSZip> {
   const urlInfo = parseYuqueUrl(yuqueUrl);
   if (!urlInfo) {
@@ -230,85 +383,107 @@ async function convertYuqueUrlToMarkdown(
 
   if (urlInfo.isBook) {
     // 整个知识库
-    const { bookId, toc } = await fetchYuqueBookData(urlInfo.namespace, urlInfo.book);
+    const { bookId, bookName, toc } = await fetchYuqueBookData(urlInfo.namespace, urlInfo.book);
     console.log(`Found ${toc.length} items in book, bookId: ${bookId}`);
+    const selected = selectTocItems(toc, options.include);
+    const total = toc.filter(item => selected.has(item) && item.type === 'DOC' && item.url).length;
+    let done = 0;
+    options.onProgress?.({ type: 'parsed', total, book: bookName });
 
     let pathPrefixed: string[] = [];
+    let titlePath: string[] = [];
+    let lastTitle = '';
     let lastLevel = 0;
     let lastSanitizedTitle = '';
-    const usedNames = new Set<string>();
+    const namer = new FileNamer(options.naming, [REPORT_NAME]);
+    const linker = new BookLinker(`${urlInfo.namespace}/${urlInfo.book}`);
+    const assets = assetStore(zip, options);
+    const docs: Array<{ path: string; markdown: string }> = [];
 
     for (const item of toc) {
       if (!item.title) continue;
 
-      let sanitizedTitle = sanitizeFileName(item.title);
-      while (usedNames.has(sanitizedTitle)) {
-        sanitizedTitle = sanitizeFileName(item.title) + String(Math.floor(Math.random() * 1000));
-      }
-      usedNames.add(sanitizedTitle);
-
       const currentLevel = item.level || 0;
 
       if (currentLevel > lastLevel) {
         pathPrefixed = [...pathPrefixed, lastSanitizedTitle];
+        titlePath = [...titlePath, lastTitle];
       } else if (currentLevel < lastLevel) {
         const diff = lastLevel - currentLevel;
         pathPrefixed = pathPrefixed.slice(0, -diff);
+        titlePath = titlePath.slice(0, -diff);
       }
 
-      if (item.type === 'DOC' && item.url) {
+      const sanitizedTitle = namer.name(
+        { title: item.title, slug: item.url, id: item.doc_id },
+        pathPrefixed.join('/')
+      );
+
+      if (!selected.has(item)) {
+        // 不在导出范围内
+      } else if (item.type === 'DOC' && item.url) {
+        const outputDirPath = pathPrefixed.join('/');
+        const docPath = outputDirPath
+          ? `${outputDirPath}/${sanitizedTitle}`
+          : sanitizedTitle;
+        const entry = report.addDoc({ title: item.title, path: docPath, source: `${referer}/${item.url}`, status: 'converted' });
+
         try {
           console.log(`Fetching doc: ${item.title} (${item.url})`);
           const doc = await fetchYuqueDoc(bookId, item.url, referer);
-          let html = lakeToHtml(doc.content);
-
-          const attachmentsMap = new Map<string, { data: Uint8Array; ext: string }>();
-          const outputDirPath = pathPrefixed.join('/');
-
-          if (downloadImages && html) {
-            html = await downloadImageAndPatchHtml(html, sanitizedTitle, attachmentsMap);
-
-            for (const [attachPath, { data }] of attachmentsMap) {
-              const fullPath = outputDirPath
-                ? `${outputDirPath}/${attachPath}`
-                : attachPath;
-              zip.file(fullPath, data);
-            }
-          }
-
-          const markdown = prettyMd(htmlToMarkdown(html));
-          const outputPath = outputDirPath
-            ? `${outputDirPath}/${sanitizedTitle}.md`
-            : `${sanitizedTitle}.md`;
-          zip.file(outputPath, markdown);
+          const html = lakeToHtml(doc.content);
+
+          const markdown = renderMarkdown(html, {
+            ...yuqueDocMeta(doc, `${referer}/${item.url}`),
+            book: bookName,
+            breadcrumb: titlePath,
+          }, options, {
+            ...linker.register(item.url, docPath),
+            ...await localizeAssets(assets, html, outputDirPath, options, report, entry),
+            ...report.track(entry),
+            emitFile: fileEmitter(zip, outputDirPath, sanitizedTitle),
+          });
+          docs.push({ path: docPath, markdown });
         } catch (e) {
           console.error(`Failed to fetch doc ${item.url}:`, e);
+          entry.status = 'failed';
+          entry.error = errorMessage(e);
         }
+        reportDocProgress(options, entry, ++done, total);
+      } else if (item.type !== 'TITLE') {
+        report.addDoc({ title: item.title, source: item.url, status: 'skipped', error: `Unsupported toc item type: ${item.type}` });
       }
 
       lastSanitizedTitle = sanitizedTitle;
+      lastTitle = item.title;
       lastLevel = currentLevel;
     }
+
+    // 所有文档路径确定后再改写文档间的链接
+    for (const doc of docs) {
+      zip.file(`${doc.path}.md`, linker.resolve(doc.markdown, doc.path, options.convertOptions));
+    }
   } else {
     // 单篇文档 - 需要先获取 bookId
-    const { bookId } = await fetchYuqueBookData(urlInfo.namespace, urlInfo.book);
+    const { bookId, bookName } = await fetchYuqueBookData(urlInfo.namespace, urlInfo.book);
+    options.onProgress?.({ type: 'parsed', total: 1, book: bookName });
 
     const doc = await fetchYuqueDoc(bookId, urlInfo.slug!, referer);
-    let html = lakeToHtml(doc.content);
-    const sanitizedTitle = sanitizeFileName(doc.title);
-
-    const attachmentsMap = new Map<string, { data: Uint8Array; ext: string }>();
-
-    if (downloadImages && html) {
-      html = await downloadImageAndPatchHtml(html, sanitizedTitle, attachmentsMap);
-
-      for (const [attachPath, { data }] of attachmentsMap) {
-        zip.file(attachPath, data);
-      }
-    }
-
-    const markdown = prettyMd(htmlToMarkdown(html));
+    const html = lakeToHtml(doc.content);
+    const sanitizedTitle = new FileNamer(options.naming, [REPORT_NAME]).name({ title: doc.title, slug: doc.slug, id: doc.id });
+    const entry = report.addDoc({ title: doc.title, path: sanitizedTitle, source: `${referer}/${urlInfo.slug}`, status: 'converted' });
+    const assets = assetStore(zip, options);
+
+    const markdown = renderMarkdown(html, {
+      ...yuqueDocMeta(doc, `${referer}/${urlInfo.slug}`),
+      book: bookName,
+    }, options, {
+      ...await localizeAssets(assets, html, '', options, report, entry),
+      ...report.track(entry),
+      emitFile: fileEmitter(zip, '', sanitizedTitle),
+    });
     zip.file(`${sanitizedTitle}.md`, markdown);
+    reportDocProgress(options, entry, 1, 1);
   }
 
   return zip;
@@ -316,64 +491,44 @@ async function convertYuqueUrlToMarkdown(
 
 // ============ Lakebook 文件处理 ============
 
-async function extractTarGz(data: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+/**
+ * 读取 lakebook 中的普通文件
+ * @param keep 只保留返回 true 的文件内容，其余文件读过即丢弃
+ * @param sizes 记录每个文件的大小
+ */
+async function extractTarGz(
+  upload: ReadableStream<Uint8Array>,
+  keep: (path: string) => boolean = () => true,
+  sizes?: Map<string, number>
+): Promise<Map<string, Uint8Array>> {
   const files = new Map<string, Uint8Array>();
-
-  const tarData = ungzip(new Uint8Array(data));
-
-  let offset = 0;
-  while (offset < tarData.length) {
-    if (offset + 512 > tarData.length) break;
-
-    const header = tarData.slice(offset, offset + 512);
-
-    if (header.every(b => b === 0)) break;
-
-    let fileName = '';
-    for (let i = 0; i < 100 && header[i] !== 0; i++) {
-      fileName += String.fromCharCode(header[i]);
-    }
-
-    let prefix = '';
-    for (let i = 345; i < 500 && header[i] !== 0; i++) {
-      prefix += String.fromCharCode(header[i]);
-    }
-    if (prefix) {
-      fileName = prefix + '/' + fileName;
-    }
-
-    let sizeStr = '';
-    for (let i = 124; i < 136 && header[i] !== 0 && header[i] !== 32; i++) {
-      sizeStr += String.fromCharCode(header[i]);
-    }
-    const fileSize = parseInt(sizeStr, 8) || 0;
-
-    const typeFlag = String.fromCharCode(header[156]);
-
-    offset += 512;
-
-    if (typeFlag === '0' || typeFlag === '\0') {
-      const fileData = tarData.slice(offset, offset + fileSize);
-      files.set(fileName, fileData);
+  for await (const entry of readTar(gunzip(upload))) {
+    if (entry.type !== 'file') continue;
+    sizes?.set(entry.name, entry.data.length);
+    if (keep(entry.name)) {
+      files.set(entry.name, entry.data);
     }
-
-    offset += Math.ceil(fileSize / 512) * 512;
   }
-
   return files;
 }
 
+// 路径形如 <repoDir>/$meta.json 时返回 repoDir
+function repoDirOf(path: string): string {
+  const parts = path.split('/');
+  return parts.length >= 2 && parts[1] === META_JSON ? parts[0] : '';
+}
+
 function findRepoDir(files: Map<string, Uint8Array>): string {
   for (const path of files.keys()) {
-    const parts = path.split('/');
-    if (parts.length >= 2 && parts[1] === META_JSON) {
-      return parts[0];
+    const repoDir = repoDirOf(path);
+    if (repoDir) {
+      return repoDir;
     }
   }
   return '';
 }
 
-function readToc(files: Map<string, Uint8Array>, repoDir: string): TocItem[] {
+function readMeta(files: Map<string, Uint8Array>, repoDir: string): LakebookMeta {
   const metaPath = `${repoDir}/${META_JSON}`;
   const metaData = files.get(metaPath);
   if (!metaData) {
@@ -382,66 +537,175 @@ function readToc(files: Map<string, Uint8Array>, repoDir: string): TocItem[] {
 
   const metaStr = new TextDecoder('utf-8').decode(metaData);
   const metaFile: MetaFile = JSON.parse(metaStr);
-  const meta = JSON.parse(metaFile.meta);
+  return JSON.parse(metaFile.meta);
+}
+
+function readToc(files: Map<string, Uint8Array>, repoDir: string): TocItem[] {
+  const meta = readMeta(files, repoDir);
   const tocStr = meta.book?.tocYml || '';
   return yaml.load(tocStr) as TocItem[];
 }
 
-async function downloadImageAndPatchHtml(
-  html: string,
-  sanitizedTitle: string,
-  attachmentsMap: Map<string, { data: Uint8Array; ext: string }>
-): Promise<string> {
-  const imgRegex = /<img[^>]+src="([^"]+)"[^>]*>/gi;
-  let no = 1;
-  let modifiedHtml = html;
-
-  const matches: { original: string; src: string }[] = [];
-  let match;
-  while ((match = imgRegex.exec(html)) !== null) {
-    matches.push({ original: match[0], src: match[1] });
+function readBookInfo(files: Map<string, Uint8Array>, repoDir: string): BookInfo {
+  const book = readMeta(files, repoDir).book || {};
+  return {
+    id: book.id,
+    name: book.name,
+    slug: book.slug,
+    namespace: book.namespace,
+  };
+}
+
+function tocItemId(item: TocItem): string {
+  return String(item.uuid || item.url || '');
+}
+
+function isDocItem(item: TocItem): boolean {
+  return item.type === TYPE_DOC || SHEET_TYPES.includes(item.type);
+}
+
+/**
+ * 返回导出范围内的目录条目，include 为空时返回全部
+ * 与节点 id 匹配时选中该节点及其所有子节点，只与文档 url 匹配时只选中该文档
+ */
+function selectTocItems(toc: TocItem[], include?: string[]): Set<TocItem> {
+  if (!include) return new Set(toc);
+
+  const ids = new Set(include);
+  const selected = new Set<TocItem>();
+  // 祖先节点的层级及其子树是否整体被选中
+  const stack: Array<{ level: number; subtree: boolean }> = [];
+  for (const item of toc) {
+    if (!item.title) continue;
+    const level = item.level || 0;
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    const subtree = ids.has(tocItemId(item)) || (stack.length > 0 && stack[stack.length - 1].subtree);
+    if (subtree || (item.url && ids.has(String(item.url)))) {
+      selected.add(item);
+    }
+    stack.push({ level, subtree });
   }
+  return selected;
+}
 
-  for (const { original, src } of matches) {
-    try {
-      const response = await fetch(src, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-          'Referer': 'https://www.yuque.com/',
-        },
-      });
-      if (response.ok) {
-        const contentType = response.headers.get('Content-Type') || '';
-        const ext = contentTypeToExtension[contentType.split(';')[0]] || '.png';
-        const data = new Uint8Array(await response.arrayBuffer());
-        const fileName = `${sanitizedTitle}_${String(no).padStart(3, '0')}${ext}`;
-
-        attachmentsMap.set(`attachments/${fileName}`, { data, ext });
-
-        const newSrc = `./attachments/${fileName}`;
-        const newImgTag = original.replace(src, newSrc);
-        modifiedHtml = modifiedHtml.replace(original, newImgTag);
-        no++;
-      }
-    } catch (e) {
-      console.error(`Failed to download image: ${src}`, e);
+/**
+ * 按层级把目录组织为树，统计每个节点下的文档数和原始数据大小
+ * @param docSize 返回文档原始数据的字节数
+ */
+function buildTocTree(toc: TocItem[], docSize: (url: string) => number): TocNode[] {
+  const roots: TocNode[] = [];
+  const stack: Array<{ level: number; node: TocNode }> = [];
+
+  for (const item of toc) {
+    const title = String(item.title || '');
+    if (!title) continue;
+
+    const level = item.level || 0;
+    const url = item.url ? String(item.url) : undefined;
+    const isDoc = isDocItem(item);
+    const node: TocNode = {
+      id: tocItemId(item),
+      title,
+      type: item.type,
+      url,
+      docCount: isDoc ? 1 : 0,
+      size: isDoc && url ? docSize(url) : 0,
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
     }
+    (stack.length > 0 ? stack[stack.length - 1].node.children : roots).push(node);
+    stack.push({ level, node });
   }
 
-  return modifiedHtml;
+  const sum = (node: TocNode) => {
+    for (const child of node.children) {
+      sum(child);
+      node.docCount += child.docCount;
+      node.size += child.size;
+    }
+  };
+  roots.forEach(sum);
+  return roots;
 }
 
-async function extractRepos(
-  files: Map<string, Uint8Array>,
-  repoDir: string,
-  toc: TocItem[],
-  downloadImage: boolean
-): Promise<JSZip> {
-  const zip = new JSZip();
+// 已读到 $meta.json 的 lakebook
+interface LakebookSource {
+  repoDir: string;
+  toc: TocItem[];
+  book: BookInfo;
+  // 在 $meta.json 之前及其本身读出的条目
+  files: Map<string, Uint8Array>;
+  // 尚未读取的条目
+  rest: AsyncGenerator<TarEntry>;
+}
+
+// 不超过该大小的上传先完整校验再转换，不超过该大小的转换结果整体返回
+const BUFFERED_LAKEBOOK_SIZE = 16 * 1024 * 1024;
+
+/**
+ * 大小已知且不超过 BUFFERED_LAKEBOOK_SIZE 的上传先读入内存并完整解压一遍，
+ * 压缩包损坏时在开始转换前抛出 TarError；其他上传原样返回，转换时才能发现损坏
+ */
+async function checkSmallLakebook(upload: ReadableStream<Uint8Array>, size: number): Promise<ReadableStream<Uint8Array>> {
+  if (!(size > 0 && size <= BUFFERED_LAKEBOOK_SIZE)) {
+    return upload;
+  }
+  const data = new Blob([await new Response(upload).arrayBuffer()]);
+  const entries = readTar(gunzip(data.stream()));
+  while (!(await entries.next()).done);
+  return data.stream();
+}
+
+/**
+ * 边解压边读取 lakebook，读到 $meta.json 即返回，其余条目留给转换时按需读取
+ * 不是有效的 lakebook 时返回 null
+ */
+async function openLakebook(upload: ReadableStream<Uint8Array>): Promise<LakebookSource | null> {
+  const entries = readTar(gunzip(upload));
+  const files = new Map<string, Uint8Array>();
+
+  for (let next = await entries.next(); !next.done; next = await entries.next()) {
+    if (next.value.type !== 'file') continue;
+    files.set(next.value.name, next.value.data);
+    const repoDir = repoDirOf(next.value.name);
+    if (repoDir) {
+      return { repoDir, toc: readToc(files, repoDir), book: readBookInfo(files, repoDir), files, rest: entries };
+    }
+  }
+  return null;
+}
+
+// 目录中需要导出的文档
+interface PlannedDoc {
+  title: string;
+  type: string;
+  url: string;
+  outputDirPath: string;
+  sanitizedTitle: string;
+  docPath: string;
+  // 上级目录的标题
+  titlePath: string[];
+  entry: DocReport;
+}
+
+/**
+ * 按目录确定每篇文档的输出路径，路径只取决于目录，与文档在压缩包中的顺序无关
+ * 只导出部分目录时，未选中的条目仍参与命名，保证输出路径与完整导出时一致
+ */
+function planDocs(toc: TocItem[], options: ExportOptions, report: ConversionReport): PlannedDoc[] {
+  const planned: PlannedDoc[] = [];
   let lastLevel = 0;
   let lastSanitizedTitle = '';
+  let lastTitle = '';
   let pathPrefixed: string[] = [];
-  const usedNames = new Set<string>();
+  let titlePath: string[] = [];
+  const namer = new FileNamer(options.naming, [REPORT_NAME]);
+  const selected = selectTocItems(toc, options.include);
 
   for (const item of toc) {
     const type = item.type;
@@ -451,61 +715,547 @@ async function extractRepos(
 
     if (!title) continue;
 
-    let sanitizedTitle = sanitizeFileName(title);
-    while (usedNames.has(sanitizedTitle)) {
-      sanitizedTitle = sanitizeFileName(title) + String(Math.floor(Math.random() * 1000));
-    }
-    usedNames.add(sanitizedTitle);
-
     if (currentLevel > lastLevel) {
       pathPrefixed = [...pathPrefixed, lastSanitizedTitle];
+      titlePath = [...titlePath, lastTitle];
     } else if (currentLevel < lastLevel) {
       const diff = lastLevel - currentLevel;
       pathPrefixed = pathPrefixed.slice(0, -diff);
+      titlePath = titlePath.slice(0, -diff);
     }
 
-    if (type === TYPE_DOC) {
+    const sanitizedTitle = namer.name({ title, slug: url || undefined, id: item.doc_id }, pathPrefixed.join('/'));
+
+    if (!selected.has(item)) {
+      // 不在导出范围内
+    } else if (isDocItem(item)) {
       const outputDirPath = pathPrefixed.join('/');
-      const rawPath = `${repoDir}/${url}.json`;
-      const rawData = files.get(rawPath);
+      const docPath = outputDirPath
+        ? `${outputDirPath}/${sanitizedTitle}`
+        : sanitizedTitle;
+      const entry = report.addDoc({ title, path: docPath, source: url, status: 'converted' });
+      planned.push({ title, type, url, outputDirPath, sanitizedTitle, docPath, titlePath, entry });
+    } else if (type !== 'TITLE') {
+      report.addDoc({ title, source: url || undefined, status: 'skipped', error: `Unsupported toc item type: ${type}` });
+    }
 
-      if (rawData) {
-        const docStr = new TextDecoder('utf-8').decode(rawData);
-        const doc: DocFile = JSON.parse(docStr);
-        let html = doc.doc.body || doc.doc.body_asl || '';
+    lastSanitizedTitle = sanitizedTitle;
+    lastTitle = title;
+    lastLevel = currentLevel;
+  }
 
-        const attachmentsMap = new Map<string, { data: Uint8Array; ext: string }>();
+  return planned;
+}
 
-        if (downloadImage && html) {
-          html = await downloadImageAndPatchHtml(html, sanitizedTitle, attachmentsMap);
+// 转换一篇 lakebook 文档，附属文件直接写入 zip，返回链接尚未改写的 Markdown
+async function convertLakebookDoc(
+  rawData: Uint8Array,
+  planned: PlannedDoc,
+  book: BookInfo,
+  zip: ArchiveWriter,
+  assets: AssetStore,
+  linker: BookLinker,
+  options: ExportOptions,
+  report: ConversionReport
+): Promise<string> {
+  const { title, type, url, outputDirPath, sanitizedTitle, docPath, titlePath, entry } = planned;
+  const docStr = new TextDecoder('utf-8').decode(rawData);
+  const doc: DocFile = JSON.parse(docStr);
+  const slug = doc.doc.slug || url;
+  const meta: DocMeta = {
+    title: doc.doc.title || title,
+    slug,
+    id: doc.doc.id,
+    url: book.namespace ? `https://www.yuque.com/${book.namespace}/${slug}` : undefined,
+    book: book.name,
+    createdAt: doc.doc.created_at,
+    updatedAt: doc.doc.content_updated_at || doc.doc.updated_at,
+    wordCount: doc.doc.word_count,
+    breadcrumb: titlePath,
+  };
 
-          for (const [attachPath, { data }] of attachmentsMap) {
-            const fullPath = outputDirPath
-              ? `${outputDirPath}/${attachPath}`
-              : attachPath;
-            zip.file(fullPath, data);
-          }
-        }
+  if (SHEET_TYPES.includes(type) || isSheetDoc(doc.doc)) {
+    // 表格文档：每个工作表导出 CSV，Markdown 中只放预览
+    const sheets = parseSheetBody(doc.doc.body || doc.doc.body_asl || '{}');
+    const csvNames = sheetCsvNames(sanitizedTitle, sheets);
+    sheets.forEach((sheet, index) => {
+      zip.file(outputDirPath ? `${outputDirPath}/${csvNames[index]}` : csvNames[index], sheetToCsv(sheet));
+    });
 
-        const markdown = prettyMd(htmlToMarkdown(html));
-        const outputPath = outputDirPath
-          ? `${outputDirPath}/${sanitizedTitle}.md`
-          : `${sanitizedTitle}.md`;
-        zip.file(outputPath, markdown);
-      }
+    const html = sheetPreviewHtml(sheets, csvNames.map(name => `./${name}`), options.sheetPreviewRows || DEFAULT_SHEET_PREVIEW_ROWS);
+    return renderMarkdown(html, meta, options, linker.register(url, docPath));
+  }
+
+  const html = doc.doc.body || doc.doc.body_asl || '';
+  return renderMarkdown(html, meta, options, {
+    ...linker.register(url, docPath),
+    ...await localizeAssets(assets, html, outputDirPath, options, report, entry),
+    ...report.track(entry),
+    emitFile: fileEmitter(zip, outputDirPath, sanitizedTitle),
+  });
+}
+
+// 暂存的 Markdown 总长度上限（字符数）
+const MAX_DEFERRED_LENGTH = 8 * 1024 * 1024;
+
+/**
+ * 按压缩包中的顺序逐篇转换文档并写入 zip，内存中只保留当前文档的原始数据。
+ * 链接指向尚未读到的文档时，先暂存该文档的 Markdown，目标文档转换后再改写链接并写出；
+ * 暂存的内容超过上限时，最早暂存的文档直接按目标文档预先确定的路径改写链接后写出，
+ * 此时指向后来缺失的文档的链接不再回退为原始地址，标题锚点使用原始 id
+ */
+async function convertLakebook(
+  source: LakebookSource,
+  zip: ZipStreamWriter,
+  options: ExportOptions,
+  report: ConversionReport
+): Promise<void> {
+  const { repoDir, book } = source;
+  const linker = new BookLinker(book.namespace);
+  const assets = assetStore(zip, options);
+  // 原始文件路径 -> 尚未转换的文档
+  const remaining = new Map(planDocs(source.toc, options, report).map(doc => [`${repoDir}/${doc.url}.json`, doc]));
+  // 尚未转换的文档 slug -> 输出路径
+  const pending = new Map([...remaining.values()].map(doc => [doc.url, doc.docPath]));
+  const total = remaining.size;
+  options.onProgress?.({ type: 'parsed', total, book: book.name });
+  let deferred: Array<{ path: string; markdown: string }> = [];
+  let deferredLength = 0;
+
+  const writeResolvable = () => {
+    deferred = deferred.filter(doc => {
+      if (deferredLength <= MAX_DEFERRED_LENGTH && !linker.isResolvable(doc.markdown, pending)) return true;
+      zip.file(`${doc.path}.md`, linker.resolve(doc.markdown, doc.path, options.convertOptions, pending));
+      deferredLength -= doc.markdown.length;
+      return false;
+    });
+  };
+
+  const convert = async (path: string, rawData: Uint8Array) => {
+    const planned = remaining.get(path);
+    if (!planned) return;
+    remaining.delete(path);
+
+    try {
+      const markdown = await convertLakebookDoc(rawData, planned, book, zip, assets, linker, options, report);
+      deferred.push({ path: planned.docPath, markdown });
+      deferredLength += markdown.length;
+    } catch (e) {
+      console.error(`Failed to convert doc ${planned.url}:`, e);
+      planned.entry.status = 'failed';
+      planned.entry.error = errorMessage(e);
     }
+    pending.delete(planned.url);
+    writeResolvable();
+    await zip.flush();
+    reportDocProgress(options, planned.entry, total - remaining.size, total);
+  };
 
-    lastSanitizedTitle = sanitizedTitle;
-    lastLevel = currentLevel;
+  let archiveError: TarError | null = null;
+  try {
+    for (const [path, rawData] of source.files) {
+      source.files.delete(path);
+      await convert(path, rawData);
+    }
+    for await (const entry of source.rest) {
+      await convert(entry.name, entry.data);
+    }
+  } catch (e) {
+    // 响应已经开始发送，无法再改为 400：已转换的文档照常写出，错误写入报告和归档注释，ZIP 正常结束后再抛出
+    if (!(e instanceof TarError)) throw e;
+    archiveError = e;
+    report.error = `Invalid lakebook archive: ${e.message}`;
   }
 
-  return zip;
+  let done = total - remaining.size;
+  for (const [path, planned] of remaining) {
+    if (archiveError) {
+      planned.entry.status = 'failed';
+      planned.entry.error = `Not converted: ${archiveError.message}`;
+    } else {
+      console.error(`Missing doc file: ${path}`);
+      planned.entry.status = 'skipped';
+      planned.entry.error = `Missing ${path}`;
+    }
+    reportDocProgress(options, planned.entry, ++done, total);
+  }
+  // 其余文档的链接目标不在压缩包中，保留原始地址
+  pending.clear();
+  writeResolvable();
+
+  report.writeTo(zip);
+  // 流式响应无法再补发响应头，汇总写入 ZIP 末尾的归档注释
+  const comment = [`X-Conversion-Report: ${report.summaryHeader()}`];
+  if (report.error) {
+    comment.push(`X-Conversion-Error: ${report.error}`);
+  }
+  await zip.close(comment.join('\n'));
+  if (archiveError) throw archiveError;
+  options.onProgress?.({ type: 'done', summary: report.summary() });
 }
 
 // ============ Worker 入口 ============
 
+interface ConvertParams {
+  dialect?: string | null;
+  mergedCells?: string | null;
+  imageSize?: string | null;
+  mathImageFallback?: string | boolean | null;
+}
+
+const ZIP_HEADERS = {
+  'Content-Type': 'application/zip',
+  'Content-Disposition': 'attachment; filename="markdown-output.zip"',
+  'Access-Control-Allow-Origin': '*',
+};
+
+// 直接上传 lakebook 文件作为请求体时的类型，选项放在查询参数中
+const LAKEBOOK_CONTENT_TYPES = ['application/octet-stream', 'application/gzip', 'application/x-gzip'];
+
+function reportHeaders(report: ConversionReport): Record<string, string> {
+  return {
+    ...ZIP_HEADERS,
+    'Access-Control-Expose-Headers': 'X-Conversion-Report',
+    'X-Conversion-Report': report.summaryHeader(),
+  };
+}
+
+// 写入转换报告并打包，报告摘要同时放在响应头中
+async function zipResponse(zip: JSZip, report: ConversionReport): Promise<Response> {
+  report.writeTo(zip);
+  const zipBlob = await zip.generateAsync({ type: 'arraybuffer' });
+
+  return new Response(zipBlob, { headers: reportHeaders(report) });
+}
+
+/**
+ * 先在内存中收集流式生成的 ZIP：转换在结果超过 BUFFERED_LAKEBOOK_SIZE 之前结束时整体返回，
+ * 报告摘要放在响应头中，转换失败（包括压缩包损坏）时抛出错误；
+ * 结果更大时已收集的部分和其余内容以流的形式返回，摘要只在归档注释中
+ */
+async function bufferedZipResponse(
+  zip: ReadableStream<Uint8Array>,
+  conversion: Promise<void>,
+  report: ConversionReport
+): Promise<Response> {
+  const reader = zip.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size <= BUFFERED_LAKEBOOK_SIZE) {
+    const { done, value } = await reader.read();
+    if (done) {
+      await conversion;
+      return new Response(new Blob(chunks), { headers: reportHeaders(report) });
+    }
+    chunks.push(value);
+    size += value.length;
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk) {
+        controller.enqueue(chunk);
+        return;
+      }
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, { headers: ZIP_HEADERS });
+}
+
+function userFriendlyError(error: unknown): string {
+  const errorMsg = String(error);
+
+  if (error instanceof TarError) {
+    return '无效的 .lakebook 文件：压缩包已损坏或不完整';
+  }
+  if (error instanceof MultipartError) {
+    return '无效的表单数据';
+  }
+  if (errorMsg.includes('Cannot extract book data') || errorMsg.includes('Failed to fetch book page')) {
+    return '无法抓取语雀页面。这可能是因为：1) 语雀的反爬虫保护阻止了服务端请求；2) 该知识库需要登录才能访问。建议使用 .lakebook 文件方式转换。';
+  }
+  if (errorMsg.includes('Failed to fetch doc')) {
+    return '无法获取文档内容。该文档可能需要登录或有访问权限限制。';
+  }
+  return '处理失败';
+}
+
+const PROGRESS_HEADERS = {
+  'Content-Type': `${NDJSON_TYPE}; charset=utf-8`,
+  'Cache-Control': 'no-cache',
+  'Access-Control-Allow-Origin': '*',
+};
+
+// 客户端是否请求进度事件流
+function wantsProgress(request: Request): boolean {
+  return (request.headers.get('Accept') || '').includes(NDJSON_TYPE);
+}
+
+// 返回进度事件流，转换在后台进行
+function progressResponse(ctx: ExecutionContext, task: (events: ProgressStream) => Promise<void>): Response {
+  const events = new ProgressStream();
+  ctx.waitUntil(events.run(() => task(events), userFriendlyError));
+  return new Response(events.readable, { headers: PROGRESS_HEADERS });
+}
+
+/**
+ * 流式转换上传的 lakebook，ZIP 边生成边写入响应体
+ * 较小的上传在转换前完整校验，较小的结果整体返回并带上报告响应头，见 BUFFERED_LAKEBOOK_SIZE。
+ * 更大的结果在响应头发出时转换尚未完成，报告汇总只写入 ZIP 的归档注释。
+ * 响应开始之前发现压缩包无效时返回 400；之后才发现损坏时 ZIP 仍正常结束，
+ * 错误写入报告和归档注释，其他错误中止响应
+ * @param size 上传的大小，未知时为 0
+ * @param progress 为 true 时返回进度事件流，ZIP 数据放在 data 事件中，报告汇总放在 done 事件中
+ */
+async function lakebookResponse(
+  upload: ReadableStream<Uint8Array>,
+  size: number,
+  options: ExportOptions,
+  ctx: ExecutionContext,
+  progress = false
+): Promise<Response> {
+  const source = await openLakebook(await checkSmallLakebook(upload, size));
+  if (!source) {
+    return new Response(JSON.stringify({ error: '无效的 .lakebook 文件' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  console.log(`Found ${source.toc.length} toc items in lakebook`);
+
+  if (progress) {
+    return progressResponse(ctx, events => convertLakebook(
+      source,
+      new ZipStreamWriter(events.dataWriter()),
+      { ...options, onProgress: events.emit },
+      new ConversionReport(),
+    ));
+  }
+
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const zip = new ZipStreamWriter(writable);
+  const report = new ConversionReport();
+  const conversion = convertLakebook(source, zip, options, report);
+  ctx.waitUntil(conversion.catch(async error => {
+    console.error('Error streaming lakebook:', error);
+    // 压缩包损坏时 ZIP 已经带着错误说明正常结束
+    if (!(error instanceof TarError)) {
+      await zip.abort(error);
+    }
+  }));
+
+  return bufferedZipResponse(readable, conversion, report);
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+// 异步任务的进度最多每隔这么久写回一次（毫秒）
+const JOB_PROGRESS_INTERVAL = 2000;
+
+function jobStore(env: Env): JobStore | null {
+  if (!env.LAKEBOOK_BUCKET) return null;
+  const hours = Number(env.JOB_TTL_HOURS);
+  return new JobStore(env.LAKEBOOK_BUCKET, (hours > 0 ? hours : DEFAULT_JOB_TTL_HOURS) * 60 * 60 * 1000);
+}
+
+function jobUrls(job: Job) {
+  return {
+    statusUrl: `/api/jobs/${job.id}`,
+    resultUrl: `/api/jobs/${job.id}/result`,
+  };
+}
+
+// 在队列消费者中执行转换任务，结果写入 R2，进度定期写回任务状态，同时作为任务仍在运行的心跳
+async function runJob(store: JobStore, job: Job): Promise<void> {
+  let progress = job.progress;
+  let savedAt = Date.now();
+  let saving: Promise<unknown> = Promise.resolve();
+  const onProgress: ProgressListener = event => {
+    if (event.type === 'doc') {
+      progress = { done: event.done, total: event.total };
+    }
+    if (Date.now() - savedAt >= JOB_PROGRESS_INTERVAL) {
+      savedAt = Date.now();
+      saving = saving.then(() => store.update(job, { progress }));
+    }
+  };
+
+  try {
+    await store.update(job, { status: 'running' });
+    const input = await store.input(job.id);
+    const source = input && await openLakebook(input);
+    if (!source) {
+      throw new Error('Invalid lakebook file: $meta.json not found');
+    }
+
+    const report = new ConversionReport();
+    const zip = new ZipStreamWriter(store.resultWriter(job.id));
+    try {
+      await convertLakebook(source, zip, { ...parseExportOptions(name => job.params[name] ?? null), onProgress }, report);
+    } catch (e) {
+      await zip.abort(e);
+      throw e;
+    } finally {
+      await saving;
+    }
+
+    await store.update(job, { status: 'completed', progress, summary: report.summary() });
+  } catch (e) {
+    console.error(`Job ${job.id} failed:`, e);
+    await store.update(job, { status: 'failed', progress, error: errorMessage(e) });
+  } finally {
+    await store.deleteInput(job.id);
+  }
+}
+
+/**
+ * 预览 lakebook 的基本信息和目录树，只保留 $meta.json，文档内容读过即丢弃
+ */
+async function inspectResponse(upload: ReadableStream<Uint8Array>): Promise<Response> {
+  const sizes = new Map<string, number>();
+  const files = await extractTarGz(upload, path => repoDirOf(path) !== '', sizes);
+
+  const repoDir = findRepoDir(files);
+  if (!repoDir) {
+    return jsonResponse({ error: '无效的 .lakebook 文件' }, 400);
+  }
+
+  const toc = buildTocTree(readToc(files, repoDir), url => sizes.get(`${repoDir}/${url}.json`) || 0);
+  return jsonResponse({
+    book: readBookInfo(files, repoDir),
+    docCount: toc.reduce((total, node) => total + node.docCount, 0),
+    size: toc.reduce((total, node) => total + node.size, 0),
+    toc,
+  });
+}
+
+/**
+ * 异步任务接口：
+ * POST /api/jobs 上传 lakebook 并创建任务，GET /api/jobs/:id 查询状态，GET /api/jobs/:id/result 下载结果
+ */
+async function handleJobRequest(request: Request, url: URL, env: Env): Promise<Response> {
+  const store = jobStore(env);
+  if (!store || !env.JOB_QUEUE) {
+    return jsonResponse({ error: '未配置 R2 存储桶 LAKEBOOK_BUCKET 和队列 JOB_QUEUE，无法使用异步任务' }, 501);
+  }
+
+  const [id, action] = url.pathname.split('/').slice(3);
+
+  if (request.method === 'POST' && !id) {
+    const contentType = request.headers.get('Content-Type') || '';
+    let upload: ReadableStream<Uint8Array> | null = null;
+    let params: Record<string, string> = {};
+
+    if (LAKEBOOK_CONTENT_TYPES.some(type => contentType.includes(type))) {
+      upload = request.body;
+      params = Object.fromEntries(url.searchParams);
+    } else {
+      const form = await readFormUpload(request, 'lakebook');
+      upload = form.file;
+      params = Object.fromEntries(form.fields);
+    }
+
+    if (!upload) {
+      return jsonResponse({ error: '请上传 .lakebook 文件' }, 400);
+    }
+
+    const job = await store.create(upload, params);
+    await env.JOB_QUEUE.send({ id: job.id });
+    return jsonResponse({ ...job, ...jobUrls(job) }, 202);
+  }
+
+  if (request.method === 'GET' && id && (!action || action === 'result')) {
+    const job = await store.get(id);
+    if (!job) {
+      return jsonResponse({ error: '任务不存在或已过期' }, 404);
+    }
+    if (!action) {
+      return jsonResponse({ ...job, ...jobUrls(job) });
+    }
+
+    if (job.status !== 'completed') {
+      return jsonResponse({ error: '任务尚未完成', status: job.status }, 409);
+    }
+    const result = await store.result(id);
+    if (!result) {
+      return jsonResponse({ error: '任务不存在或已过期' }, 404);
+    }
+    return new Response(result.body, {
+      headers: { ...ZIP_HEADERS, 'Content-Length': String(result.size) },
+    });
+  }
+
+  return jsonResponse({ error: 'Not found' }, 404);
+}
+
+function parseNamingStrategy(value: string | null | undefined): NamingStrategy {
+  return isNamingStrategy(value) ? value : 'title';
+}
+
+// 资源大小上限以 MB 为单位传入，无效值使用默认上限
+function parseMaxAssetSize(value: string | number | null | undefined): number | undefined {
+  const size = Number(value);
+  return value !== null && value !== undefined && value !== '' && size > 0 ? size * 1024 * 1024 : undefined;
+}
+
+function parsePositiveInt(value: string | number | null | undefined): number | undefined {
+  const number = Math.floor(Number(value));
+  return value !== null && value !== undefined && value !== '' && number > 0 ? number : undefined;
+}
+
+function parseConvertOptions(params: ConvertParams): ConvertOptions {
+  return {
+    dialect: isDialect(params.dialect) ? params.dialect : DEFAULT_DIALECT,
+    mergedCells: params.mergedCells === 'html' ? 'html' : 'expand',
+    imageSize: params.imageSize === 'html' || params.imageSize === 'dialect' ? params.imageSize : 'none',
+    mathImageFallback: params.mathImageFallback === true || params.mathImageFallback === 'true',
+  };
+}
+
+// 逗号分隔的列表，为空时返回 undefined
+function parseList(value: string | null): string[] | undefined {
+  const items = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+// 从表单字段或查询参数中读取导出选项
+function parseExportOptions(get: (name: string) => string | null): ExportOptions {
+  return {
+    downloadImages: get('downloadImages') === 'true',
+    maxAssetSize: parseMaxAssetSize(get('maxAssetSize')),
+    sheetPreviewRows: parsePositiveInt(get('sheetPreviewRows')),
+    naming: parseNamingStrategy(get('naming')),
+    convertOptions: parseConvertOptions({
+      dialect: get('dialect'),
+      mergedCells: get('mergedCells'),
+      imageSize: get('imageSize'),
+      mathImageFallback: get('mathImageFallback'),
+    }),
+    frontMatter: parseFrontMatterFields(get('frontMatter')),
+    include: parseList(get('include')),
+  };
+}
+
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     if (request.method === 'OPTIONS') {
       return new Response(null, {
         headers: {
@@ -516,6 +1266,37 @@ export default {
       });
     }
 
+    const url = new URL(request.url);
+    if (url.pathname === '/api/inspect' && request.method === 'POST') {
+      try {
+        const contentType = request.headers.get('Content-Type') || '';
+        let upload = LAKEBOOK_CONTENT_TYPES.some(type => contentType.includes(type)) ? request.body : null;
+        if (!upload && !contentType.includes('application/json')) {
+          upload = (await readFormUpload(request, 'lakebook')).file;
+        }
+        if (!upload) {
+          return jsonResponse({ error: '请上传 .lakebook 文件' }, 400);
+        }
+        return await inspectResponse(upload);
+      } catch (error) {
+        console.error('Error inspecting lakebook:', error);
+        const status = error instanceof TarError || error instanceof MultipartError ? 400 : 500;
+        return jsonResponse({ error: userFriendlyError(error), details: String(error) }, status);
+      }
+    }
+
+    if (url.pathname === '/api/jobs' || url.pathname.startsWith('/api/jobs/')) {
+      try {
+        return await handleJobRequest(request, url, env);
+      } catch (error) {
+        console.error('Error handling job request:', error);
+        if (error instanceof MultipartError) {
+          return jsonResponse({ error: userFriendlyError(error), details: error.message }, 400);
+        }
+        return jsonResponse({ error: '处理失败', details: String(error) }, 500);
+      }
+    }
+
     if (request.method === 'GET') {
       return new Response(getUploadHtml(), {
         headers: { 'Content-Type': 'text/html; charset=utf-8' },
@@ -525,58 +1306,71 @@ export default {
     if (request.method === 'POST') {
       try {
         const contentType = request.headers.get('Content-Type') || '';
+        const uploadSize = Number(request.headers.get('Content-Length') || 0);
 
         // 检查是否是 JSON 格式的客户端抓取数据
         if (contentType.includes('application/json')) {
           const jsonData = await request.json() as {
             docs: Array<{ title: string; content: string; path: string }>;
             downloadImages?: boolean;
+            dialect?: string;
+            mergedCells?: string;
+            imageSize?: string;
+            mathImageFallback?: boolean;
+            frontMatter?: string | boolean;
+            naming?: string;
+            maxAssetSize?: number;
+            sheetPreviewRows?: number;
           };
 
           const zip = new JSZip();
+          const options: ExportOptions = {
+            downloadImages: !!jsonData.downloadImages,
+            maxAssetSize: parseMaxAssetSize(jsonData.maxAssetSize),
+            sheetPreviewRows: parsePositiveInt(jsonData.sheetPreviewRows),
+            naming: parseNamingStrategy(jsonData.naming),
+            convertOptions: parseConvertOptions(jsonData),
+            frontMatter: parseFrontMatterFields(jsonData.frontMatter),
+          };
+
+          const namer = new FileNamer(options.naming, [REPORT_NAME]);
+          const assets = assetStore(zip, options);
+          const report = new ConversionReport();
 
           for (const doc of jsonData.docs) {
-            let html = lakeToHtml(doc.content);
-            const sanitizedTitle = sanitizeFileName(doc.title);
-            const attachmentsMap = new Map<string, { data: Uint8Array; ext: string }>();
-
-            if (jsonData.downloadImages && html) {
-              html = await downloadImageAndPatchHtml(html, sanitizedTitle, attachmentsMap);
-
-              for (const [attachPath, { data }] of attachmentsMap) {
-                const fullPath = doc.path
-                  ? `${doc.path}/${attachPath}`
-                  : attachPath;
-                zip.file(fullPath, data);
-              }
-            }
-
-            const markdown = prettyMd(htmlToMarkdown(html));
-            const outputPath = doc.path
-              ? `${doc.path}/${sanitizedTitle}.md`
-              : `${sanitizedTitle}.md`;
-            zip.file(outputPath, markdown);
+            const html = lakeToHtml(doc.content);
+            const sanitizedTitle = namer.name({ title: doc.title }, doc.path || '');
+            const docPath = doc.path
+              ? `${doc.path}/${sanitizedTitle}`
+              : sanitizedTitle;
+            const entry = report.addDoc({ title: doc.title, path: docPath, status: 'converted' });
+
+            const markdown = renderMarkdown(html, {
+              title: doc.title,
+              breadcrumb: doc.path ? doc.path.split('/') : undefined,
+            }, options, {
+              ...await localizeAssets(assets, html, doc.path || '', options, report, entry),
+              ...report.track(entry),
+              emitFile: fileEmitter(zip, doc.path || '', sanitizedTitle),
+            });
+            zip.file(`${docPath}.md`, markdown);
           }
 
-          const zipBlob = await zip.generateAsync({ type: 'arraybuffer' });
-
-          return new Response(zipBlob, {
-            headers: {
-              'Content-Type': 'application/zip',
-              'Content-Disposition': 'attachment; filename="markdown-output.zip"',
-              'Access-Control-Allow-Origin': '*',
-            },
-          });
+          return zipResponse(zip, report);
         }
 
-        const formData = await request.formData();
-        const file = formData.get('lakebook') as File | null;
-        const yuqueUrl = formData.get('yuqueUrl') as string | null;
-        const downloadImages = formData.get('downloadImages') === 'true';
+        // 直接上传的 lakebook 文件，边接收边转换
+        if (LAKEBOOK_CONTENT_TYPES.some(type => contentType.includes(type)) && request.body) {
+          return await lakebookResponse(request.body, uploadSize, parseExportOptions(name => url.searchParams.get(name)), ctx, wantsProgress(request));
+        }
 
-        let zip: JSZip;
+        // 表单上传同样边接收边转换，选项字段需要放在文件之前
+        const { fields, file } = await readFormUpload(request, 'lakebook');
+        const yuqueUrl = fields.get('yuqueUrl');
+        const options = parseExportOptions(name => fields.get(name) ?? null);
 
         if (yuqueUrl && yuqueUrl.trim()) {
+          await file?.cancel();
           // 从语雀 URL 抓取（服务端模式，可能受反爬虫限制）
           const urlInfo = parseYuqueUrl(yuqueUrl.trim());
           if (!urlInfo) {
@@ -586,53 +1380,39 @@ export default {
             });
           }
 
-          zip = await convertYuqueUrlToMarkdown(yuqueUrl.trim(), downloadImages);
-        } else if (file && file.size > 0) {
-          // 处理上传的 lakebook 文件
-          const arrayBuffer = await file.arrayBuffer();
-          const files = await extractTarGz(arrayBuffer);
-
-          const repoDir = findRepoDir(files);
-          if (!repoDir) {
-            return new Response(JSON.stringify({ error: '无效的 .lakebook 文件' }), {
-              status: 400,
-              headers: { 'Content-Type': 'application/json' },
+          const report = new ConversionReport();
+          if (wantsProgress(request)) {
+            return progressResponse(ctx, async events => {
+              const zip = await convertYuqueUrlToMarkdown(yuqueUrl.trim(), { ...options, onProgress: events.emit }, report);
+              report.writeTo(zip);
+              await events.send(await zip.generateAsync({ type: 'uint8array' }));
+              events.emit({ type: 'done', summary: report.summary() });
             });
           }
+          return zipResponse(await convertYuqueUrlToMarkdown(yuqueUrl.trim(), options, report), report);
+        }
 
-          const toc = readToc(files, repoDir);
-          console.log(`Total ${toc.length} files`);
+        if (file) {
+          // 处理上传的 lakebook 文件
+          // 请求体的大小包含其他字段，作为文件大小的上限
+          return await lakebookResponse(file, uploadSize, options, ctx, wantsProgress(request));
+        }
 
-          zip = await extractRepos(files, repoDir, toc, downloadImages);
-        } else {
-          return new Response(JSON.stringify({ error: '请上传文件或输入语雀 URL' }), {
+        return new Response(JSON.stringify({ error: '请上传文件或输入语雀 URL' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (error) {
+        if (error instanceof TarError || error instanceof MultipartError) {
+          return new Response(JSON.stringify({ error: userFriendlyError(error), details: error.message }), {
             status: 400,
             headers: { 'Content-Type': 'application/json' },
           });
         }
 
-        const zipBlob = await zip.generateAsync({ type: 'arraybuffer' });
-
-        return new Response(zipBlob, {
-          headers: {
-            'Content-Type': 'application/zip',
-            'Content-Disposition': 'attachment; filename="markdown-output.zip"',
-            'Access-Control-Allow-Origin': '*',
-          },
-        });
-      } catch (error) {
         console.error('Error processing:', error);
-        const errorMsg = String(error);
-        let userFriendlyError = '处理失败';
-
-        if (errorMsg.includes('Cannot extract book data') || errorMsg.includes('Failed to fetch book page')) {
-          userFriendlyError = '无法抓取语雀页面。这可能是因为：1) 语雀的反爬虫保护阻止了服务端请求；2) 该知识库需要登录才能访问。建议使用 .lakebook 文件方式转换。';
-        } else if (errorMsg.includes('Failed to fetch doc')) {
-          userFriendlyError = '无法获取文档内容。该文档可能需要登录或有访问权限限制。';
-        }
-
         return new Response(
-          JSON.stringify({ error: userFriendlyError, details: errorMsg }),
+          JSON.stringify({ error: userFriendlyError(error), details: String(error) }),
           {
             status: 500,
             headers: { 'Content-Type': 'application/json' },
@@ -643,6 +1423,33 @@ export default {
 
     return new Response('Method not allowed', { status: 405 });
   },
+
+  // 执行异步任务，每条消息对应一个任务
+  async queue(batch: MessageBatch<JobMessage>, env: Env): Promise<void> {
+    const store = jobStore(env);
+    if (!store) {
+      throw new Error('LAKEBOOK_BUCKET is not configured');
+    }
+
+    for (const message of batch.messages) {
+      const job = await store.get(message.body.id);
+      if (job?.status === 'queued') {
+        await runJob(store, job);
+      } else if (job?.status === 'running') {
+        // 上一次执行超出平台限制被中断，消息被重新投递；同样的任务再次执行多半仍会被中断
+        await store.update(job, { status: 'failed', error: 'Job was interrupted before it finished' });
+      }
+      message.ack();
+    }
+  },
+
+  // 定时清理过期的异步任务
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const store = jobStore(env);
+    if (store) {
+      ctx.waitUntil(store.deleteExpired().then(count => console.log(`Deleted ${count} expired job files`)));
+    }
+  },
 };
 
 function getUploadHtml(): string {
@@ -789,6 +1596,17 @@ function getUploadHtml(): string {
       color: #333;
       font-size: 14px;
     }
+    .option + .option {
+      margin-top: 10px;
+    }
+    .option select {
+      flex: 1;
+      padding: 6px 8px;
+      border: 1px solid #ddd;
+      border-radius: 6px;
+      font-size: 14px;
+      background: white;
+    }
     button[type="submit"] {
       width: 100%;
       padding: 14px;
@@ -842,6 +1660,94 @@ function getUploadHtml(): string {
       font-size: 14px;
     }
     .error.show { display: block; }
+    .progress-bar {
+      height: 8px;
+      margin-top: 12px;
+      background: #f3f3f3;
+      border-radius: 4px;
+      overflow: hidden;
+    }
+    .progress-bar-fill {
+      width: 0;
+      height: 100%;
+      background: #667eea;
+      transition: width 0.2s;
+    }
+    .progress-detail {
+      margin-top: 8px;
+      font-size: 13px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .warnings {
+      display: none;
+      margin-top: 20px;
+      padding: 10px;
+      background: #fff8e6;
+      border-radius: 8px;
+      font-size: 13px;
+      color: #8a6d3b;
+    }
+    .warnings.show { display: block; }
+    .warnings ul {
+      max-height: 200px;
+      margin: 8px 0 0;
+      padding-left: 20px;
+      overflow-y: auto;
+      word-break: break-all;
+    }
+    .toc {
+      display: none;
+      margin-bottom: 20px;
+      padding: 10px;
+      background: #f5f5f5;
+      border-radius: 8px;
+      font-size: 13px;
+      color: #333;
+    }
+    .toc.show { display: block; }
+    .toc-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .toc-header span { flex: 1; }
+    .toc-header button {
+      padding: 2px 8px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      background: white;
+      font-size: 12px;
+      cursor: pointer;
+    }
+    .toc-tree {
+      max-height: 300px;
+      margin-top: 8px;
+      overflow-y: auto;
+      list-style: none;
+    }
+    .toc-tree ul {
+      list-style: none;
+      padding-left: 20px;
+    }
+    .toc-tree label {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 2px 0;
+    }
+    .toc-tree .toc-title {
+      flex: 1;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .toc-tree .toc-meta {
+      color: #999;
+      font-size: 12px;
+      white-space: nowrap;
+    }
   </style>
 </head>
 <body>
@@ -874,12 +1780,51 @@ function getUploadHtml(): string {
           <div class="upload-text">点击或拖拽 .lakebook 文件到此处</div>
           <div class="file-name" id="fileName"></div>
         </div>
+        <div class="toc" id="toc">
+          <div class="toc-header">
+            <span id="tocStatus"></span>
+            <button type="button" id="tocAll">全选</button>
+            <button type="button" id="tocNone">全不选</button>
+          </div>
+          <ul class="toc-tree" id="tocTree"></ul>
+        </div>
       </div>
 
       <div class="options">
         <div class="option">
           <input type="checkbox" id="downloadImages" name="downloadImages" value="true">
-          <label for="downloadImages">下载图片到本地</label>
+          <label for="downloadImages">下载图片和附件到本地</label>
+        </div>
+        <div class="option">
+          <input type="checkbox" id="frontMatter" name="frontMatter" value="true">
+          <label for="frontMatter">生成 YAML front matter（标题、slug、文档 ID、原文链接、日期、目录路径）</label>
+        </div>
+        <div class="option">
+          <label for="naming">文件命名</label>
+          <select id="naming" name="naming">
+            <option value="title" selected>文档标题</option>
+            <option value="slug">文档 slug</option>
+            <option value="id">文档 ID + 标题</option>
+            <option value="pinyin">标题拼音</option>
+          </select>
+        </div>
+        <div class="option">
+          <label for="dialect">输出格式</label>
+          <select id="dialect" name="dialect">
+            <option value="gfm" selected>GitHub (GFM)</option>
+            <option value="commonmark">CommonMark</option>
+            <option value="obsidian">Obsidian</option>
+            <option value="hugo">Hugo</option>
+            <option value="docusaurus">Docusaurus</option>
+          </select>
+        </div>
+        <div class="option">
+          <label for="imageSize">图片尺寸</label>
+          <select id="imageSize" name="imageSize">
+            <option value="none" selected>不保留</option>
+            <option value="html">HTML &lt;img width&gt;</option>
+            <option value="dialect">按输出格式（Obsidian、Hugo）</option>
+          </select>
         </div>
       </div>
 
@@ -889,9 +1834,17 @@ function getUploadHtml(): string {
     <div class="progress" id="progress">
       <span class="spinner"></span>
       <span id="progressText">正在处理中，请稍候...</span>
+      <div class="progress-bar"><div class="progress-bar-fill" id="progressBar"></div></div>
+      <div class="progress-detail" id="progressDoc"></div>
+      <div class="progress-detail" id="progressAssets"></div>
     </div>
 
     <div class="error" id="error"></div>
+
+    <div class="warnings" id="warnings">
+      <strong id="warningTitle">警告</strong>
+      <ul id="warningList"></ul>
+    </div>
   </div>
 
   <script>
@@ -903,7 +1856,16 @@ function getUploadHtml(): string {
     const uploadForm = document.getElementById('uploadForm');
     const progress = document.getElementById('progress');
     const progressText = document.getElementById('progressText');
+    const progressBar = document.getElementById('progressBar');
+    const progressDoc = document.getElementById('progressDoc');
+    const progressAssets = document.getElementById('progressAssets');
+    const warnings = document.getElementById('warnings');
+    const warningTitle = document.getElementById('warningTitle');
+    const warningList = document.getElementById('warningList');
     const error = document.getElementById('error');
+    const toc = document.getElementById('toc');
+    const tocStatus = document.getElementById('tocStatus');
+    const tocTree = document.getElementById('tocTree');
     const tabs = document.querySelectorAll('.tab');
     const tabContents = document.querySelectorAll('.tab-content');
 
@@ -960,8 +1922,148 @@ function getUploadHtml(): string {
     function updateFileDisplay(file) {
       fileName.textContent = file.name;
       updateSubmitButton();
+      inspectFile(file);
+    }
+
+    // 预览目录，用户可以只勾选部分目录导出
+    let tocTotal = 0;
+    let inspecting = null;
+
+    function formatSize(bytes) {
+      if (bytes < 1024) return bytes + ' B';
+      if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+      return (bytes / 1024 / 1024).toFixed(1) + ' MB';
+    }
+
+    async function inspectFile(file) {
+      const current = inspecting = file;
+      tocTree.innerHTML = '';
+      tocTotal = 0;
+      tocStatus.textContent = '正在读取目录...';
+      toc.classList.add('show');
+      try {
+        const response = await fetch('/api/inspect', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: file,
+        });
+        const result = await response.json();
+        if (current !== inspecting) return;
+        if (!response.ok) {
+          throw new Error(result.error || 'Unknown error');
+        }
+        tocTotal = result.docCount;
+        result.toc.forEach(node => tocTree.appendChild(renderTocNode(node)));
+        updateTocStatus();
+      } catch (err) {
+        if (current !== inspecting) return;
+        tocTree.innerHTML = '';
+        tocStatus.textContent = '无法读取目录（' + err.message + '），将导出全部文档';
+      }
+    }
+
+    function renderTocNode(node) {
+      const item = document.createElement('li');
+      const label = document.createElement('label');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = true;
+      checkbox.dataset.id = node.id;
+      checkbox.dataset.url = node.url || '';
+      // 节点本身是否为文档，目录节点的文档数全部来自子节点
+      const own = node.docCount - node.children.reduce((total, child) => total + child.docCount, 0);
+      checkbox.dataset.own = own;
+      checkbox.addEventListener('change', () => {
+        item.querySelectorAll('input').forEach(input => {
+          input.checked = checkbox.checked;
+          input.indeterminate = false;
+        });
+        updateAncestors(item);
+        updateTocStatus();
+      });
+
+      const title = document.createElement('span');
+      title.className = 'toc-title';
+      title.textContent = node.title;
+      const meta = document.createElement('span');
+      meta.className = 'toc-meta';
+      meta.textContent = node.docCount > 0 ? node.docCount + ' 篇 · ' + formatSize(node.size) : '';
+      label.append(checkbox, title, meta);
+      item.appendChild(label);
+
+      if (node.children.length > 0) {
+        const children = document.createElement('ul');
+        node.children.forEach(child => children.appendChild(renderTocNode(child)));
+        item.appendChild(children);
+      }
+      return item;
+    }
+
+    function childItems(item) {
+      const children = item.querySelector(':scope > ul');
+      return children ? Array.from(children.children) : [];
+    }
+
+    function checkboxOf(item) {
+      return item.querySelector(':scope > label > input');
+    }
+
+    function isFullySelected(item) {
+      return Array.from(item.querySelectorAll('input')).every(input => input.checked);
+    }
+
+    // 目录节点在子节点全部勾选时勾选，文档节点的勾选只表示文档本身；部分勾选时显示为半选
+    function updateAncestors(item) {
+      let parent = item.parentElement.closest('li');
+      while (parent) {
+        const checkbox = checkboxOf(parent);
+        const children = childItems(parent);
+        if (checkbox.dataset.own === '0') {
+          checkbox.checked = children.every(isFullySelected);
+        }
+        checkbox.indeterminate = !isFullySelected(parent)
+          && Array.from(parent.querySelectorAll('input')).some(input => input.checked);
+        parent = parent.parentElement.closest('li');
+      }
+    }
+
+    // 整个子树都选中时取节点 id，否则取选中文档的 url；全部选中时返回 null 表示导出全部
+    function selectedTocIds() {
+      const items = Array.from(tocTree.children);
+      if (items.length === 0 || items.every(isFullySelected)) return null;
+      const ids = [];
+      const collect = item => {
+        const checkbox = checkboxOf(item);
+        if (checkbox.dataset.id && isFullySelected(item)) {
+          ids.push(checkbox.dataset.id);
+          return;
+        }
+        if (checkbox.checked && checkbox.dataset.own !== '0' && checkbox.dataset.url) {
+          ids.push(checkbox.dataset.url);
+        }
+        childItems(item).forEach(collect);
+      };
+      items.forEach(collect);
+      return ids;
     }
 
+    function updateTocStatus() {
+      const selected = Array.from(tocTree.querySelectorAll('input'))
+        .reduce((total, input) => total + (input.checked ? Number(input.dataset.own) : 0), 0);
+      tocStatus.textContent = '已选择 ' + selected + '/' + tocTotal + ' 篇文档';
+    }
+
+    function setAllToc(checked) {
+      tocTree.querySelectorAll('input').forEach(input => {
+        input.checked = checked;
+        input.indeterminate = false;
+      });
+      updateTocStatus();
+    }
+
+    document.getElementById('tocAll').addEventListener('click', () => setAllToc(true));
+    document.getElementById('tocNone').addEventListener('click', () => setAllToc(false));
+
     function updateSubmitButton() {
       if (currentTab === 'url') {
         submitBtn.disabled = !urlInput.value.trim();
@@ -970,10 +2072,96 @@ function getUploadHtml(): string {
       }
     }
 
+    const statusLabels = { converted: '成功', skipped: '跳过', failed: '失败' };
+    let assetCounts = { downloaded: 0, failed: 0 };
+
+    function resetProgress() {
+      progressBar.style.width = '0';
+      progressDoc.textContent = '';
+      progressAssets.textContent = '';
+      warningList.innerHTML = '';
+      warnings.classList.remove('show');
+      assetCounts = { downloaded: 0, failed: 0 };
+    }
+
+    function addWarning(text) {
+      const item = document.createElement('li');
+      item.textContent = text;
+      warningList.appendChild(item);
+      warningTitle.textContent = '警告（' + warningList.children.length + '）';
+      warnings.classList.add('show');
+    }
+
+    function handleProgress(event) {
+      if (event.type === 'parsed') {
+        progressText.textContent = '共 ' + event.total + ' 篇文档，正在转换...';
+      } else if (event.type === 'doc') {
+        progressBar.style.width = (event.total ? event.done / event.total * 100 : 100) + '%';
+        progressDoc.textContent = '已处理 ' + event.done + '/' + event.total + '：' + event.title;
+        if (event.status !== 'converted') {
+          addWarning((event.path || event.title) + '：' + statusLabels[event.status] + (event.error ? '，' + event.error : ''));
+        }
+      } else if (event.type === 'asset') {
+        assetCounts[event.status]++;
+        progressAssets.textContent = '资源：已下载 ' + assetCounts.downloaded + ' 个，失败 ' + assetCounts.failed + ' 个';
+      } else if (event.type === 'warning') {
+        addWarning(event.doc + '：' + event.message);
+      } else if (event.type === 'done') {
+        progressBar.style.width = '100%';
+        progressText.textContent = '转换完成';
+      }
+    }
+
+    function decodeBase64(text) {
+      const binary = atob(text);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      return bytes;
+    }
+
+    // 逐行读取进度事件，拼接 data 事件中的 ZIP 数据
+    async function readProgress(response) {
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      const parts = [];
+      let buffer = '';
+      let finished = false;
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const lines = (buffer + value).split('\\n');
+        buffer = lines.pop();
+        for (const line of lines) {
+          if (!line) continue;
+          const event = JSON.parse(line);
+          if (event.type === 'data') {
+            parts.push(decodeBase64(event.chunk));
+          } else if (event.type === 'error') {
+            throw new Error(event.error || event.details || 'Unknown error');
+          } else {
+            finished = finished || event.type === 'done';
+            handleProgress(event);
+          }
+        }
+      }
+      if (!finished) {
+        throw new Error('连接中断，转换未完成');
+      }
+      return new Blob(parts, { type: 'application/zip' });
+    }
+
     uploadForm.addEventListener('submit', async (e) => {
       e.preventDefault();
 
       error.classList.remove('show');
+      const include = currentTab === 'file' ? selectedTocIds() : null;
+      if (include && include.length === 0) {
+        error.textContent = '请至少选择一篇文档';
+        error.classList.add('show');
+        return;
+      }
+      resetProgress();
       progress.classList.add('show');
       progressText.textContent = currentTab === 'url'
         ? '正在抓取语雀文档...'
@@ -981,25 +2169,38 @@ function getUploadHtml(): string {
       submitBtn.disabled = true;
 
       const formData = new FormData(uploadForm);
-
-      if (currentTab === 'url') {
-        formData.delete('lakebook');
-      } else {
-        formData.delete('yuqueUrl');
-      }
+      const file = formData.get('lakebook');
+      formData.delete('lakebook');
 
       try {
-        const response = await fetch('/', {
-          method: 'POST',
-          body: formData,
-        });
+        let response;
+        if (currentTab === 'url') {
+          response = await fetch('/', {
+            method: 'POST',
+            headers: { 'Accept': 'application/x-ndjson' },
+            body: formData,
+          });
+        } else {
+          // 选中的目录可能很多，和其他选项一起放在表单中而不是查询字符串里；
+          // 文件放在最后，服务端读完选项后即可边接收边转换
+          formData.delete('yuqueUrl');
+          if (include) {
+            formData.set('include', include.join(','));
+          }
+          formData.append('lakebook', file);
+          response = await fetch('/', {
+            method: 'POST',
+            headers: { 'Accept': 'application/x-ndjson' },
+            body: formData,
+          });
+        }
 
         if (!response.ok) {
           const result = await response.json();
           throw new Error(result.error || result.details || 'Unknown error');
         }
 
-        const blob = await response.blob();
+        const blob = await readProgress(response);
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
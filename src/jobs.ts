@@ -0,0 +1,206 @@
+/**
+ * 异步转换任务
+ * 上传的文件和转换结果保存在 R2 中，任务状态以 JSON 保存在同一目录，
+ * 转换在队列消费者中执行，大型知识库不必在一次请求内完成转换，客户端轮询状态后再下载结果
+ */
+
+import type { ReportSummary } from './report';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  // 超过该时间后任务及其结果被删除
+  expiresAt: string;
+  // 导出选项，与查询参数的格式相同
+  params: Record<string, string>;
+  progress: {
+    // 目录中需要导出的文档数，开始转换前为 0
+    total: number;
+    done: number;
+  };
+  summary?: ReportSummary;
+  error?: string;
+}
+
+// 队列消息只包含任务 id，参数和上传的文件都在 R2 中
+export interface JobMessage {
+  id: string;
+}
+
+// 默认保留 24 小时
+export const DEFAULT_JOB_TTL_HOURS = 24;
+
+// 运行中的任务超过这么久没有更新状态，视为执行已被中断（毫秒）
+export const JOB_STALL_TIMEOUT = 10 * 60 * 1000;
+
+// R2 分片上传的分片大小，除最后一片外所有分片大小相同且不小于 5 MiB
+const PART_SIZE = 5 * 1024 * 1024;
+
+const JOB_ID_RE = /^[0-9a-f-]{36}$/;
+
+export class JobStore {
+  /**
+   * @param ttl 任务结束后保留的时间（毫秒）
+   */
+  constructor(private bucket: R2Bucket, private ttl: number) {}
+
+  /**
+   * 保存上传的文件并创建排队中的任务，上传的大小事先未知，以分片上传的方式写入 R2
+   */
+  async create(upload: ReadableStream<Uint8Array>, params: Record<string, string>): Promise<Job> {
+    const id = crypto.randomUUID();
+    const now = new Date();
+    await upload.pipeTo(this.writer(this.key(id, 'input.lakebook'), 'application/octet-stream'));
+
+    const job: Job = {
+      id,
+      status: 'queued',
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttl).toISOString(),
+      params,
+      progress: { total: 0, done: 0 },
+    };
+    await this.save(job);
+    return job;
+  }
+
+  /**
+   * 读取任务状态，任务不存在或已过期时返回 null，过期的任务同时被删除
+   * 长时间没有更新的运行中任务标记为失败
+   */
+  async get(id: string): Promise<Job | null> {
+    if (!JOB_ID_RE.test(id)) return null;
+    const object = await this.bucket.get(this.key(id, 'job.json'));
+    if (!object) return null;
+
+    const job: Job = await object.json();
+    if (Date.parse(job.expiresAt) <= Date.now()) {
+      await this.delete(id);
+      return null;
+    }
+    if (job.status === 'running' && Date.parse(job.updatedAt) + JOB_STALL_TIMEOUT <= Date.now()) {
+      return this.update(job, { status: 'failed', error: 'Job stalled: no progress was reported before it was interrupted' });
+    }
+    return job;
+  }
+
+  /**
+   * 更新任务状态，任务结束时从结束时间起重新计算过期时间
+   */
+  async update(job: Job, changes: Partial<Pick<Job, 'status' | 'progress' | 'summary' | 'error'>>): Promise<Job> {
+    const now = new Date();
+    Object.assign(job, changes, { updatedAt: now.toISOString() });
+    if (job.status === 'completed' || job.status === 'failed') {
+      job.expiresAt = new Date(now.getTime() + this.ttl).toISOString();
+    }
+    await this.save(job);
+    return job;
+  }
+
+  async input(id: string): Promise<ReadableStream<Uint8Array> | null> {
+    const object = await this.bucket.get(this.key(id, 'input.lakebook'));
+    return object ? object.body : null;
+  }
+
+  async result(id: string): Promise<R2ObjectBody | null> {
+    return this.bucket.get(this.key(id, 'output.zip'));
+  }
+
+  /**
+   * 返回写入转换结果的可写流
+   */
+  resultWriter(id: string): WritableStream<Uint8Array> {
+    return this.writer(this.key(id, 'output.zip'), 'application/zip');
+  }
+
+  // 转换结束后不再需要上传的文件
+  async deleteInput(id: string): Promise<void> {
+    await this.bucket.delete(this.key(id, 'input.lakebook'));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.bucket.delete(['job.json', 'input.lakebook', 'output.zip'].map(name => this.key(id, name)));
+  }
+
+  /**
+   * 删除所有过期任务的文件，按文件的最后写入时间判断，由定时任务调用
+   */
+  async deleteExpired(): Promise<number> {
+    const expired: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const listed = await this.bucket.list({ prefix: 'jobs/', cursor });
+      for (const object of listed.objects) {
+        if (object.uploaded.getTime() + this.ttl <= Date.now()) {
+          expired.push(object.key);
+        }
+      }
+      cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
+
+    // 每次最多删除 1000 个
+    for (let i = 0; i < expired.length; i += 1000) {
+      await this.bucket.delete(expired.slice(i, i + 1000));
+    }
+    return expired.length;
+  }
+
+  // 大小事先未知的文件以分片上传的方式写入 R2
+  private writer(key: string, contentType: string): WritableStream<Uint8Array> {
+    const bucket = this.bucket;
+    const parts: R2UploadedPart[] = [];
+    let upload: R2MultipartUpload;
+    let buffer = new Uint8Array(PART_SIZE);
+    let length = 0;
+
+    const uploadPart = async () => {
+      parts.push(await upload.uploadPart(parts.length + 1, buffer.subarray(0, length)));
+      buffer = new Uint8Array(PART_SIZE);
+      length = 0;
+    };
+
+    return new WritableStream<Uint8Array>({
+      async start() {
+        upload = await bucket.createMultipartUpload(key, {
+          httpMetadata: { contentType },
+        });
+      },
+      async write(chunk) {
+        let offset = 0;
+        while (offset < chunk.length) {
+          const count = Math.min(PART_SIZE - length, chunk.length - offset);
+          buffer.set(chunk.subarray(offset, offset + count), length);
+          length += count;
+          offset += count;
+          if (length === PART_SIZE) {
+            await uploadPart();
+          }
+        }
+      },
+      async close() {
+        if (length > 0 || parts.length === 0) {
+          await uploadPart();
+        }
+        await upload.complete(parts);
+      },
+      async abort() {
+        await upload?.abort();
+      },
+    });
+  }
+
+  private save(job: Job): Promise<R2Object> {
+    return this.bucket.put(this.key(job.id, 'job.json'), JSON.stringify(job), {
+      httpMetadata: { contentType: 'application/json' },
+    });
+  }
+
+  private key(id: string, name: string): string {
+    return `jobs/${id}/${name}`;
+  }
+}
@@ -0,0 +1,479 @@
+/**
+ * Lake 卡片解析
+ * 语雀 lake 格式用 <card name="..." value="data:..."> 存储图片、代码块、公式、附件等富文本块，
+ * value 为 "data:" 前缀加 URL 编码的 JSON
+ */
+
+import { commentLine, normalizeLanguage } from './code-languages';
+import { FigureImage, getDialect, withCaption } from './dialects';
+import type { RuleContext } from './html-to-md';
+import { codeSpan, escapeMarkdown, fencedBlock, linkDestination } from './markdown-escape';
+
+export interface LakeCard {
+  name: string;
+  type: 'inline' | 'block';
+  // 未经校验的 JSON，通过 cardValue 按卡片类型读取
+  value: unknown;
+}
+
+export type CardRenderer = (card: LakeCard, ctx: RuleContext) => string;
+
+// 以下为各类卡片 value 中用到的字段，字段均可能缺失
+
+export interface ImageCardValue {
+  src?: string;
+  name?: string;
+  // 图注
+  title?: string;
+  width?: number | string;
+  height?: number | string;
+  align?: string;
+}
+
+export interface CodeBlockCardValue {
+  mode?: string;
+  code?: string;
+  title?: string;
+  fileName?: string;
+}
+
+export interface MathCardValue {
+  code?: string;
+  // 语雀渲染的公式图片
+  url?: string;
+  name?: string;
+}
+
+// 附件、视频、音频
+export interface FileCardValue {
+  src?: string;
+  url?: string;
+  name?: string;
+}
+
+export interface LinkCardValue {
+  src?: string;
+  url?: string;
+  text?: string;
+  title?: string;
+  detail?: { url?: string; title?: string };
+}
+
+export interface DiagramCardValue {
+  code?: string;
+  type?: string;
+  url?: string;
+  src?: string;
+}
+
+export interface MindmapNode {
+  text?: string;
+  topic?: string;
+  title?: string;
+  name?: string;
+  html?: string;
+  data?: MindmapNode;
+  children?: MindmapNode[];
+  nodes?: MindmapNode[];
+}
+
+export interface MindmapCardValue extends DiagramCardValue {
+  diagramData?: { body?: MindmapNode[]; root?: MindmapNode };
+  root?: MindmapNode;
+  data?: MindmapNode;
+}
+
+export interface BoardCardValue extends DiagramCardValue {
+  name?: string;
+  diagramData?: unknown;
+  data?: unknown;
+}
+
+export interface MentionCardValue {
+  login?: string;
+  name?: string;
+}
+
+export interface LabelCardValue {
+  label?: string;
+  text?: string;
+  name?: string;
+  status?: string;
+}
+
+export interface EmojiCardValue {
+  emoji?: string;
+  char?: string;
+  native?: string;
+  unicode?: string;
+  code?: string;
+  name?: string;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * 按卡片类型读取 value，value 不是对象时返回空对象
+ * 字段类型来自 JSON，使用前仍需按需转换
+ */
+export function cardValue<T extends object>(card: LakeCard): Partial<T> {
+  return isObject(card.value) ? card.value as Partial<T> : {};
+}
+
+// 解析卡片的 value 属性，无法解析时返回 null
+export function parseCardValue(raw: string | undefined): unknown {
+  if (!raw) return null;
+
+  let payload = raw.startsWith('data:') ? raw.slice(5) : raw;
+  try {
+    payload = decodeURIComponent(payload);
+  } catch (e) {
+    // 部分导出内容未经 URL 编码，直接按原文解析
+  }
+
+  try {
+    return JSON.parse(payload);
+  } catch (e) {
+    return null;
+  }
+}
+
+// 按方言转义普通文本
+export function escapeText(ctx: RuleContext, text: string, atLineStart = false): string {
+  return escapeMarkdown(text, atLineStart, getDialect(ctx.options.dialect).mdx);
+}
+
+// 资源已下载到本地时使用本地路径
+export function assetUrl(ctx: RuleContext, url: string): string {
+  return (url && ctx.options.resolveAsset?.(url)) || url;
+}
+
+function wrapBlock(card: LakeCard, markdown: string): string {
+  return card.type === 'block' ? `\n${markdown}\n\n` : markdown;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+// 自闭合的 <img />，HTML 和 MDX 都能解析
+function htmlImage(image: FigureImage, align?: string): string {
+  const attrs = [`src="${escapeAttribute(image.src)}"`, `alt="${escapeAttribute(image.alt)}"`];
+  if (image.width) attrs.push(`width="${image.width}"`);
+  if (image.height) attrs.push(`height="${image.height}"`);
+  const img = `<img ${attrs.join(' ')} />`;
+  return align === 'center' || align === 'right' ? `<p align="${align}">${img}</p>` : img;
+}
+
+/**
+ * 输出图片，按 imageSize 选项保留尺寸和对齐方式，图注放在图片下方
+ */
+export function renderFigure(ctx: RuleContext, image: FigureImage, align?: string): string {
+  const mode = ctx.options.imageSize || 'none';
+  const sized = !!(image.width || image.height);
+  const dialect = getDialect(ctx.options.dialect);
+  if (mode === 'dialect' && sized) {
+    const figure = dialect.figure(image);
+    if (figure !== null) return figure;
+  }
+  if (mode !== 'none' && (sized || align === 'center' || align === 'right')) {
+    return withCaption(htmlImage(image, align), image.caption, dialect.mdx);
+  }
+  return withCaption(`![${escapeText(ctx, image.alt)}](${linkDestination(image.src)})`, image.caption, dialect.mdx);
+}
+
+export function parseImageSize(value: unknown): number | undefined {
+  const size = Math.round(Number(value));
+  return size > 0 ? size : undefined;
+}
+
+// 图片卡片的 title 为图注，块级图片的图注输出在图片下方
+function renderImage(card: LakeCard, ctx: RuleContext): string {
+  const value = cardValue<ImageCardValue>(card);
+  const src = assetUrl(ctx, value.src || '');
+  if (!src) return '';
+  const caption = String(value.title || '').trim();
+  return wrapBlock(card, renderFigure(ctx, {
+    src,
+    alt: value.title || value.name || '',
+    width: parseImageSize(value.width),
+    height: parseImageSize(value.height),
+    caption: card.type === 'block' && caption ? caption : undefined,
+  }, value.align));
+}
+
+// 代码块卡片，代码内容原样保留，标题按方言写入 info 或首行注释
+// 没有语言时 info 的第一个词会被当作语言：支持标题的方言补上 text，其余方言把标题改为代码块上方的强调文本
+function renderCodeBlock(card: LakeCard, ctx: RuleContext): string {
+  const value = cardValue<CodeBlockCardValue>(card);
+  const lang = normalizeLanguage(value.mode);
+  let code = String(value.code ?? '');
+  let info = lang;
+  let label = '';
+
+  const title = String(value.title || value.fileName || '').trim();
+  if (title) {
+    const comment = commentLine(lang, title);
+    if (getDialect(ctx.options.dialect).codeTitle || (comment === null && lang)) {
+      info = `${lang || 'text'} title="${title.replace(/"/g, '\\"')}"`;
+    } else if (comment === null) {
+      label = `*${escapeText(ctx, title.replace(/\s+/g, ' '))}*\n\n`;
+    } else {
+      code = `${comment}\n${code}`;
+    }
+  }
+  return `\n${label}${fencedBlock(code, info)}\n\n`;
+}
+
+// 公式卡片输出 LaTeX 源码，渲染好的图片仅在开启 mathImageFallback 且缺少源码时使用
+function renderMath(card: LakeCard, ctx: RuleContext): string {
+  const value = cardValue<MathCardValue>(card);
+  const code = typeof value.code === 'string' ? value.code : '';
+  const dialect = getDialect(ctx.options.dialect);
+
+  if (!code.trim()) {
+    if (ctx.options.mathImageFallback && value.url) {
+      return wrapBlock(card, `![${escapeText(ctx, value.name || 'formula')}](${linkDestination(value.url)})`);
+    }
+    return renderPlaceholder(card);
+  }
+
+  if (card.type === 'block') {
+    return `\n${dialect.blockMath(code.replace(/^\n+|\n+$/g, ''))}\n\n`;
+  }
+  // 行内公式分隔符内侧不能有空白，也不能跨行
+  return dialect.inlineMath(code.trim().replace(/\s*\n\s*/g, ' '));
+}
+
+function renderFile(card: LakeCard, ctx: RuleContext): string {
+  const value = cardValue<FileCardValue>(card);
+  const src = value.src || value.url || '';
+  const name = value.name || src;
+  if (!src) return renderPlaceholder(card);
+  return wrapBlock(card, `[${escapeText(ctx, name)}](${linkDestination(assetUrl(ctx, src))})`);
+}
+
+function renderMediaCard(label: string): CardRenderer {
+  return (card, ctx) => {
+    const value = cardValue<FileCardValue>(card);
+    const src = value.src || value.url || '';
+    const name = value.name || label;
+    if (!src) return renderPlaceholder(card);
+    return wrapBlock(card, `[${escapeText(ctx, name)}](${linkDestination(assetUrl(ctx, src))})`);
+  };
+}
+
+function renderLink(card: LakeCard, ctx: RuleContext): string {
+  const value = cardValue<LinkCardValue>(card);
+  const src = value.src || value.url || value.detail?.url || '';
+  const title = escapeText(ctx, value.detail?.title || value.text || value.title || src);
+  if (!src) return renderPlaceholder(card);
+  const resolved = ctx.options.resolveLink?.(src, title);
+  return wrapBlock(card, resolved ?? `[${title}](${linkDestination(src)})`);
+}
+
+// 文本绘图的类型与代码块语言
+const DIAGRAM_LANGUAGES: Record<string, string> = {
+  puml: 'plantuml',
+  plantuml: 'plantuml',
+  mermaid: 'mermaid',
+  graphviz: 'dot',
+  dot: 'dot',
+  flowchart: 'flow',
+  sequence: 'sequence',
+};
+
+function renderDiagramImage(card: LakeCard, ctx: RuleContext, label: string): string {
+  const value = cardValue<DiagramCardValue>(card);
+  const src = assetUrl(ctx, value.url || value.src || '');
+  return src ? `![${label}](${linkDestination(src)})` : '';
+}
+
+// 文本绘图（PlantUML、Mermaid、Graphviz 等）输出为对应语言的代码块，保留可编辑的源码
+function renderDiagram(card: LakeCard, ctx: RuleContext): string {
+  const value = cardValue<DiagramCardValue>(card);
+  const code = typeof value.code === 'string' ? value.code : '';
+  const type = String(value.type || card.name).toLowerCase();
+  if (!code.trim()) {
+    const image = renderDiagramImage(card, ctx, type);
+    return image ? `\n${image}\n\n` : renderPlaceholder(card);
+  }
+  return `\n${fencedBlock(code.replace(/^\n+|\n+$/g, ''), DIAGRAM_LANGUAGES[type] || type)}\n\n`;
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+}
+
+function mindmapText(node: MindmapNode): string {
+  const text = node.text ?? node.topic ?? node.title ?? node.name ?? node.data?.text ?? node.html ?? '';
+  return stripTags(String(text)).replace(/\s+/g, ' ');
+}
+
+function mindmapChildren(node: MindmapNode): MindmapNode[] {
+  const children: unknown = node.children ?? node.data?.children ?? node.nodes;
+  return Array.isArray(children) ? children.filter(isObject) : [];
+}
+
+// 思维导图的根节点，兼容不同版本卡片数据的嵌套方式
+function findMindmapRoot(value: Partial<MindmapCardValue>): MindmapNode | undefined {
+  const body: unknown = value.diagramData?.body;
+  const candidates: unknown[] = [Array.isArray(body) ? body[0] : undefined, value.diagramData?.root, value.root, value.data, value];
+  return candidates
+    .filter(isObject)
+    .find(candidate => mindmapText(candidate) || mindmapChildren(candidate).length > 0);
+}
+
+function renderOutline(ctx: RuleContext, node: MindmapNode, depth: number, lines: string[]): void {
+  const text = mindmapText(node);
+  if (text) {
+    lines.push(`${'  '.repeat(depth)}- ${escapeText(ctx, text)}`);
+  }
+  for (const child of mindmapChildren(node)) {
+    renderOutline(ctx, child, text ? depth + 1 : depth, lines);
+  }
+}
+
+// 思维导图输出为嵌套列表
+function renderMindmap(card: LakeCard, ctx: RuleContext): string {
+  const root = findMindmapRoot(cardValue<MindmapCardValue>(card));
+  const lines: string[] = [];
+  if (root) {
+    renderOutline(ctx, root, 0, lines);
+  }
+  if (lines.length === 0) {
+    const image = renderDiagramImage(card, ctx, 'mindmap');
+    return image ? `\n${image}\n\n` : renderPlaceholder(card);
+  }
+  return `\n${lines.join('\n')}\n\n`;
+}
+
+// 画板输出渲染图片，原始数据另存为 JSON 附属文件以便迁移后继续编辑
+function renderBoard(card: LakeCard, ctx: RuleContext): string {
+  const value = cardValue<BoardCardValue>(card);
+  const parts: string[] = [];
+  const image = renderDiagramImage(card, ctx, escapeText(ctx, value.name || 'board'));
+  if (image) {
+    parts.push(image);
+  }
+
+  const data = value.diagramData ?? value.data;
+  if (data && ctx.options.emitFile) {
+    const content = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+    const path = ctx.options.emitFile('board.json', content);
+    parts.push(`[画板数据](${linkDestination(path)})`);
+  }
+
+  if (parts.length === 0) {
+    return renderPlaceholder(card);
+  }
+  return `\n${parts.join('\n\n')}\n\n`;
+}
+
+function renderHr(): string {
+  return '\n---\n\n';
+}
+
+// 任务列表的勾选框，value 为布尔值或 { checked }；不在列表项中时补上列表标记
+function renderCheckbox(card: LakeCard, ctx: RuleContext): string {
+  const checked = card.value === true || card.value === 'true' || !!cardValue<{ checked?: boolean }>(card).checked;
+  const marker = getDialect(ctx.options.dialect).taskMarker(checked);
+  const parent = ctx.ancestors[ctx.ancestors.length - 1];
+  const inListItem = ctx.ancestors.some(ancestor => ancestor.tagName === 'li');
+  return !inListItem && parent?.children?.[0] === ctx.node ? `- ${marker}` : marker;
+}
+
+// @提及输出为指向用户主页的链接
+function renderMention(card: LakeCard, ctx: RuleContext): string {
+  const value = cardValue<MentionCardValue>(card);
+  const login = value.login || '';
+  if (!login) {
+    return value.name ? `@${escapeText(ctx, value.name)}` : '';
+  }
+  return `[@${escapeText(ctx, login)}](https://www.yuque.com/${encodeURIComponent(login)})`;
+}
+
+// 日期卡片输出 YYYY-MM-DD
+function renderDate(card: LakeCard, ctx: RuleContext): string {
+  const value = card.value;
+  const raw = isObject(value) ? value.date ?? value.value ?? value.time : value;
+  if (raw === undefined || raw === null || raw === '') return '';
+
+  const text = String(raw);
+  if (/^\d+$/.test(text)) {
+    // 时间戳（秒或毫秒）按语雀所在的东八区换算
+    const time = Number(text) < 1e11 ? Number(text) * 1000 : Number(text);
+    const date = new Date(time + 8 * 3600 * 1000);
+    return isNaN(date.getTime()) ? escapeText(ctx, text) : date.toISOString().slice(0, 10);
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    return text.slice(0, 10);
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? escapeText(ctx, text) : date.toISOString().slice(0, 10);
+}
+
+// 标签、状态卡片输出为行内代码
+function renderLabel(card: LakeCard): string {
+  const value = cardValue<LabelCardValue>(card);
+  const label = String(value.label ?? value.text ?? value.name ?? value.status ?? '').trim();
+  return label ? codeSpan(label) : '';
+}
+
+// 表情卡片输出 Unicode 字符，value 中只有编码时按码点还原，都没有时保留短代码
+function renderEmoji(card: LakeCard, ctx: RuleContext): string {
+  const value = cardValue<EmojiCardValue>(card);
+  const char = value.emoji || value.char || value.native;
+  if (char) return char;
+
+  const code = String(value.unicode || value.code || '');
+  if (/^(?:[0-9a-f]{4,6})(?:[-_ ][0-9a-f]{4,6})*$/i.test(code)) {
+    const points = code.split(/[-_ ]/).map(hex => parseInt(hex, 16));
+    // 超出 Unicode 范围的码点无法转换，按名称或原文输出
+    if (points.every(point => point <= 0x10ffff)) return String.fromCodePoint(...points);
+  }
+  if (value.name) return `:${escapeText(ctx, String(value.name))}:`;
+  return escapeText(ctx, code);
+}
+
+// 未支持的卡片输出可见的占位文本，避免内容被静默丢弃
+export function renderPlaceholder(card: LakeCard): string {
+  return wrapBlock(card, `[未支持的语雀卡片：${card.name}]`);
+}
+
+export const cardRenderers: Record<string, CardRenderer> = {
+  image: renderImage,
+  codeblock: renderCodeBlock,
+  math: renderMath,
+  file: renderFile,
+  video: renderMediaCard('视频'),
+  audio: renderMediaCard('音频'),
+  hr: renderHr,
+  bookmarklink: renderLink,
+  bookmarkInline: renderLink,
+  yuque: renderLink,
+  yuqueinline: renderLink,
+  checkbox: renderCheckbox,
+  mention: renderMention,
+  date: renderDate,
+  label: renderLabel,
+  status: renderLabel,
+  emoji: renderEmoji,
+  diagram: renderDiagram,
+  puml: renderDiagram,
+  plantuml: renderDiagram,
+  mermaid: renderDiagram,
+  graphviz: renderDiagram,
+  mindmap: renderMindmap,
+  board: renderBoard,
+};
+
+export function parseCard(attrs: Record<string, string>): LakeCard {
+  return {
+    name: attrs.name || '',
+    type: attrs.type === 'block' ? 'block' : 'inline',
+    value: parseCardValue(attrs.value),
+  };
+}
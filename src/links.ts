@@ -0,0 +1,146 @@
+/**
+ * 知识库内部链接改写
+ * 文档之间的语雀链接在转换时先输出占位符，目标文档转换后再替换为相对路径，
+ * 这样链接到目录中靠后的文档、以及文档内的标题锚点都能正确解析；
+ * 等待的文档过多时也可以按目录预先确定的路径直接改写
+ */
+
+import { getDialect } from './dialects';
+import type { ConvertOptions } from './html-to-md';
+import { linkDestination } from './markdown-escape';
+
+export interface YuqueDocLink {
+  namespace: string;
+  book: string;
+  slug: string;
+  anchor?: string;
+}
+
+interface PendingLink {
+  href: string;
+  text: string;
+  target: YuqueDocLink;
+}
+
+// 匹配 https://www.yuque.com/<ns>/<book>/<slug>#anchor、自定义空间域名以及 /<ns>/<book>/<slug> 形式的链接
+const YUQUE_DOC_LINK_RE = /^(?:https?:\/\/(?:[\w-]+\.)*yuque\.com)?\/([^\/?#]+)\/([^\/?#]+)\/([^\/?#]+)\/?(?:\?[^#]*)?(?:#(.*))?$/;
+
+const PLACEHOLDER_RE = /\u0000yuque-link:(\d+)\u0000/g;
+
+export function parseYuqueDocLink(href: string): YuqueDocLink | null {
+  const match = href.trim().match(YUQUE_DOC_LINK_RE);
+  if (!match) return null;
+
+  const decode = (value: string) => {
+    try {
+      return decodeURIComponent(value);
+    } catch (e) {
+      return value;
+    }
+  };
+  return {
+    namespace: decode(match[1]),
+    book: decode(match[2]),
+    slug: decode(match[3]),
+    anchor: match[4] ? decode(match[4]) : undefined,
+  };
+}
+
+// 计算从 fromDir 目录到 toPath 的相对路径
+export function relativePath(fromDir: string, toPath: string): string {
+  const from = fromDir ? fromDir.split('/') : [];
+  const to = toPath.split('/');
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+    common++;
+  }
+  const ups = from.slice(common).map(() => '..');
+  const rest = to.slice(common);
+  return [...(ups.length > 0 ? ups : ['.']), ...rest].join('/');
+}
+
+export class BookLinker {
+  // slug -> 输出路径（不含 .md 扩展名）
+  private paths = new Map<string, string>();
+  // slug -> 标题 id -> 标题文本
+  private headings = new Map<string, Map<string, string>>();
+  // 占位符编号 -> 链接，改写后即删除
+  private links = new Map<number, PendingLink>();
+  private nextLinkId = 0;
+
+  /**
+   * @param namespace 知识库的 "<ns>/<book>"，未知时所有语雀文档链接都按 slug 匹配
+   */
+  constructor(private namespace?: string) {}
+
+  /**
+   * 登记一篇文档的输出路径，返回转换该文档时使用的链接和标题回调
+   */
+  register(slug: string, path: string): Pick<ConvertOptions, 'resolveLink' | 'onHeading'> {
+    this.paths.set(slug, path);
+    const headings = new Map<string, string>();
+    this.headings.set(slug, headings);
+
+    return {
+      resolveLink: (href, text) => {
+        const target = parseYuqueDocLink(href);
+        if (!target || !this.isSameBook(target)) return null;
+        const id = this.nextLinkId++;
+        this.links.set(id, { href, text, target });
+        return `\u0000yuque-link:${id}\u0000`;
+      },
+      onHeading: (id, text) => {
+        headings.set(id, text);
+      },
+    };
+  }
+
+  /**
+   * 将文档中的链接占位符替换为最终链接，指向未导出文档的链接保留原始地址
+   * @param fromPath 当前文档的输出路径（不含扩展名）
+   * @param pending 尚未转换的文档 slug -> 预先确定的输出路径，链接指向这些文档时不等待其转换，标题锚点保留原始 id
+   */
+  resolve(markdown: string, fromPath: string, options: ConvertOptions, pending?: ReadonlyMap<string, string>): string {
+    const fromDir = fromPath.split('/').slice(0, -1).join('/');
+    const dialect = getDialect(options.dialect);
+
+    return markdown.replace(PLACEHOLDER_RE, (_, index) => {
+      const link = this.links.get(Number(index));
+      if (!link) return '';
+      this.links.delete(Number(index));
+      const { href, text, target } = link;
+      const path = this.paths.get(target.slug) ?? pending?.get(target.slug);
+      if (path === undefined) {
+        return `[${text}](${linkDestination(href)})`;
+      }
+
+      const heading = target.anchor
+        ? this.headings.get(target.slug)?.get(target.anchor) ?? target.anchor
+        : undefined;
+      return dialect.internalLink({
+        path,
+        relativePath: relativePath(fromDir, path),
+        text,
+        heading,
+      });
+    });
+  }
+
+  /**
+   * 文档中的链接是否都可以改写，链接指向尚未转换的文档时返回 false
+   * @param pending 尚未转换的文档 slug
+   */
+  isResolvable(markdown: string, pending: ReadonlyMap<string, string>): boolean {
+    for (const match of markdown.matchAll(PLACEHOLDER_RE)) {
+      const link = this.links.get(Number(match[1]));
+      if (link && pending.has(link.target.slug)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private isSameBook(target: YuqueDocLink): boolean {
+    return !this.namespace || this.namespace === `${target.namespace}/${target.book}`;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Markdown 转义
+ * 文本节点中的 Markdown 语法字符需要转义，否则会意外改变格式
+ */
+
+// 行内始终需要转义的字符，$ 会被支持公式的渲染器解析为公式分隔符
+const INLINE_SPECIAL_RE = /[\\`*\[\]~$]/g;
+// 仅在不构成单词内部时才会被解析为强调的下划线
+const UNDERSCORE_RE = /(?<![\p{L}\p{N}])_|_(?![\p{L}\p{N}])/gu;
+// 会被解析为 HTML 标签或注释的 '<'
+const HTML_TAG_RE = /<(?=[a-zA-Z\/!?])/g;
+// MDX 中 { } 开始 JavaScript 表达式，任何 < 都可能开始 JSX 标签
+const MDX_SPECIAL_RE = /[{}<]/g;
+// 会被解析为 HTML 实体的 '&'
+const ENTITY_RE = /&(?=#?[a-zA-Z0-9]+;)/g;
+// 行首的标题、引用、列表标记
+const LINE_START_MARKER_RE = /^(\s*)([#>+\-=])(?=\s|$|\2)/;
+const LINE_START_ORDERED_RE = /^(\s*\d+)([.)])(?=\s|$)/;
+
+/**
+ * 转义普通文本中的 Markdown 语法
+ * @param atLineStart 文本是否位于行首，行首需要额外转义标题、引用和列表标记
+ * @param mdx 输出按 MDX 解析，额外转义 { } 和所有 <
+ */
+export function escapeMarkdown(text: string, atLineStart = false, mdx = false): string {
+  let result = text
+    .replace(INLINE_SPECIAL_RE, '\\$&')
+    .replace(UNDERSCORE_RE, '\\_')
+    .replace(mdx ? MDX_SPECIAL_RE : HTML_TAG_RE, '\\$&')
+    .replace(ENTITY_RE, '\\&');
+
+  if (atLineStart) {
+    result = result
+      .replace(LINE_START_MARKER_RE, '$1\\$2')
+      .replace(LINE_START_ORDERED_RE, '$1\\$2');
+  }
+
+  return result;
+}
+
+// 生成行内代码，反引号数量根据内容自适应，内容不做转义
+export function codeSpan(code: string): string {
+  const runs = code.match(/`+/g) || [];
+  const fence = '`'.repeat(Math.max(0, ...runs.map(run => run.length)) + 1);
+  const needsPadding = code.startsWith('`') || code.endsWith('`')
+    || (code.startsWith(' ') && code.endsWith(' ') && !!code.trim());
+  const pad = needsPadding ? ' ' : '';
+  return `${fence}${pad}${code}${pad}${fence}`;
+}
+
+// 生成围栏代码块，围栏长度比内容中最长的连续反引号多一个，内容原样保留
+export function fencedBlock(code: string, info = ''): string {
+  const runs = code.match(/`+/g) || [];
+  const fence = '`'.repeat(Math.max(2, ...runs.map(run => run.length)) + 1);
+  return `${fence}${info}\n${code}\n${fence}`;
+}
+
+// 链接地址包含空白或括号时使用尖括号形式
+export function linkDestination(url: string): string {
+  return /[\s()]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+export function linkTitle(title: string | undefined): string {
+  return title ? ` "${title.replace(/"/g, '\\"')}"` : '';
+}
+
+// GitHub 风格的标题锚点
+export function headingSlug(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
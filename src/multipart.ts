@@ -0,0 +1,192 @@
+/**
+ * 表单上传的流式读取
+ * request.formData() 会先把整个上传文件读入内存，这里边接收边解析 multipart/form-data，
+ * 文件之前的普通字段读入内存，文件内容以流的形式返回；文件之后的字段要等文件读完才能拿到，因此被忽略
+ */
+
+export interface FormUpload {
+  fields: Map<string, string>;
+  // 表单中没有该文件字段或未选择文件时为 null
+  file: ReadableStream<Uint8Array> | null;
+}
+
+// 请求体不是有效的表单
+export class MultipartError extends Error {}
+
+// 普通字段和分段头部的大小上限
+const MAX_FIELD_SIZE = 1024 * 1024;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8');
+const CRLF = encoder.encode('\r\n');
+const HEADER_END = encoder.encode('\r\n\r\n');
+
+function indexOf(haystack: Uint8Array, needle: Uint8Array): number {
+  const last = haystack.length - needle.length;
+  for (let i = haystack.indexOf(needle[0]); i !== -1 && i <= last; i = haystack.indexOf(needle[0], i + 1)) {
+    let j = 1;
+    while (j < needle.length && haystack[i + j] === needle[j]) j++;
+    if (j === needle.length) return i;
+  }
+  return -1;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+// 按分隔符逐段读取流，只缓存尚未确定是否属于分隔符的数据
+class PartReader {
+  // 在开头补上 CRLF，第一个分隔符就和其余分隔符一样以 CRLF 开头
+  private buffer: Uint8Array = CRLF;
+
+  constructor(private reader: ReadableStreamDefaultReader<Uint8Array>) {}
+
+  /**
+   * 读取分隔符之前的一段数据，读到分隔符时 end 为 true 并跳过分隔符
+   * 未读到分隔符时返回的数据不为空
+   */
+  async read(delimiter: Uint8Array): Promise<{ data: Uint8Array; end: boolean }> {
+    while (true) {
+      const index = indexOf(this.buffer, delimiter);
+      if (index !== -1) {
+        const data = this.buffer.subarray(0, index);
+        this.buffer = this.buffer.subarray(index + delimiter.length);
+        return { data, end: true };
+      }
+      // 末尾可能是被截断的分隔符，留到下次再判断
+      const safe = this.buffer.length - delimiter.length + 1;
+      if (safe > 0) {
+        const data = this.buffer.subarray(0, safe);
+        this.buffer = this.buffer.subarray(safe);
+        return { data, end: false };
+      }
+      await this.fill();
+    }
+  }
+
+  /**
+   * 读取分隔符之前的全部数据，超过 limit 时报错
+   */
+  async readAll(delimiter: Uint8Array, limit = MAX_FIELD_SIZE): Promise<Uint8Array> {
+    let result: Uint8Array = new Uint8Array(0);
+    while (true) {
+      const { data, end } = await this.read(delimiter);
+      result = concat(result, data);
+      if (result.length > limit) {
+        throw new MultipartError('Form field too large');
+      }
+      if (end) return result;
+    }
+  }
+
+  // 分隔符之后为 -- 时表单结束，为 CRLF 时后面还有分段
+  async isLast(): Promise<boolean> {
+    while (this.buffer.length < 2) {
+      await this.fill();
+    }
+    const last = this.buffer[0] === 0x2d && this.buffer[1] === 0x2d;
+    if (!last && (this.buffer[0] !== CRLF[0] || this.buffer[1] !== CRLF[1])) {
+      throw new MultipartError('Invalid multipart delimiter');
+    }
+    this.buffer = this.buffer.subarray(2);
+    return last;
+  }
+
+  async cancel(): Promise<void> {
+    await this.reader.cancel().catch(() => undefined);
+  }
+
+  private async fill(): Promise<void> {
+    const { done, value } = await this.reader.read();
+    if (done) {
+      throw new MultipartError('Unexpected end of multipart body');
+    }
+    this.buffer = concat(this.buffer, value);
+  }
+}
+
+// 从 Content-Disposition 中取出字段名和文件名，未声明 filename 时文件名为 null
+function parseDisposition(headers: string): { name: string; filename: string | null } {
+  const disposition = headers.split('\r\n').find(line => /^content-disposition:/i.test(line));
+  const param = (key: string) => disposition?.match(new RegExp(`;\\s*${key}="((?:[^"\\\\]|\\\\.)*)"`, 'i'))?.[1].replace(/\\(.)/g, '$1');
+  const name = param('name');
+  if (name === undefined) {
+    throw new MultipartError('Missing form field name');
+  }
+  return { name, filename: param('filename') ?? null };
+}
+
+/**
+ * 读取表单请求，fileField 为需要以流的形式返回的文件字段
+ * 返回时文件尚未读取，调用方需要读完或取消 file
+ */
+export async function readFormUpload(request: Request, fileField: string): Promise<FormUpload> {
+  const contentType = request.headers.get('Content-Type') || '';
+  if (/^application\/x-www-form-urlencoded/i.test(contentType)) {
+    return { fields: new Map(new URLSearchParams(await request.text())), file: null };
+  }
+
+  const boundary = contentType.match(/^multipart\/form-data\s*;.*?\bboundary=(?:"([^"]+)"|([^\s;]+))/i);
+  if (!boundary || !request.body) {
+    throw new MultipartError('Expected a multipart/form-data body');
+  }
+
+  const delimiter = encoder.encode(`\r\n--${boundary[1] ?? boundary[2]}`);
+  const input = new PartReader(request.body.getReader());
+  const fields = new Map<string, string>();
+
+  try {
+    // 第一个分隔符之前的内容没有意义
+    await input.readAll(delimiter);
+    while (!await input.isLast()) {
+      const { name, filename } = parseDisposition(decoder.decode(await input.readAll(HEADER_END)));
+
+      if (name === fileField && filename) {
+        return { fields, file: fileStream(input, delimiter) };
+      }
+      if (filename === null) {
+        fields.set(name, decoder.decode(await input.readAll(delimiter)));
+      } else {
+        // 其他文件字段以及未选择文件的空字段直接跳过
+        while (!(await input.read(delimiter)).end);
+      }
+    }
+  } catch (e) {
+    await input.cancel();
+    throw e;
+  }
+
+  await input.cancel();
+  return { fields, file: null };
+}
+
+function fileStream(input: PartReader, delimiter: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { data, end } = await input.read(delimiter);
+        if (data.length > 0) {
+          controller.enqueue(data);
+        }
+        if (end) {
+          if (!await input.isLast()) {
+            console.warn('Form fields after the file field are ignored');
+          }
+          controller.close();
+          await input.cancel();
+        }
+      } catch (e) {
+        controller.error(e);
+        await input.cancel();
+      }
+    },
+    async cancel() {
+      await input.cancel();
+    },
+  });
+}
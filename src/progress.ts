@@ -0,0 +1,86 @@
+/**
+ * 转换进度
+ * 客户端以 Accept: application/x-ndjson 请求时，响应体是逐行 JSON 的事件流，
+ * ZIP 数据以 base64 分块放在 data 事件中，最后以 done 或 error 事件结束
+ */
+
+import type { AssetKind } from './assets';
+import type { DocStatus, ReportSummary } from './report';
+
+export type ProgressEvent =
+  // 压缩包或知识库目录已解析，total 为需要导出的文档数
+  | { type: 'parsed'; total: number; book?: string }
+  | { type: 'doc'; title: string; path?: string; status: DocStatus; error?: string; done: number; total: number }
+  | { type: 'asset'; url: string; kind: AssetKind; status: 'downloaded' | 'failed'; reason?: string }
+  | { type: 'warning'; doc: string; message: string }
+  | { type: 'data'; chunk: string }
+  // ZIP 已全部写出
+  | { type: 'done'; summary: ReportSummary }
+  | { type: 'error'; error: string; details?: string };
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+export const NDJSON_TYPE = 'application/x-ndjson';
+
+// 每个 data 事件携带的原始字节数
+const DATA_CHUNK_SIZE = 256 * 1024;
+
+function base64(data: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export class ProgressStream {
+  readonly readable: ReadableStream<Uint8Array>;
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private encoder = new TextEncoder();
+  // 事件按顺序写出，客户端读取较慢时 data 事件在此等待
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor() {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    this.readable = readable;
+    this.writer = writable.getWriter();
+  }
+
+  emit: ProgressListener = event => {
+    const line = this.encoder.encode(JSON.stringify(event) + '\n');
+    // 客户端断开后丢弃之后的事件
+    this.pending = this.pending.then(() => this.writer.write(line)).catch(() => undefined);
+  };
+
+  /**
+   * 以 data 事件发送 ZIP 数据
+   */
+  async send(data: Uint8Array): Promise<void> {
+    for (let i = 0; i < data.length; i += DATA_CHUNK_SIZE) {
+      this.emit({ type: 'data', chunk: base64(data.subarray(i, i + DATA_CHUNK_SIZE)) });
+    }
+    await this.pending;
+  }
+
+  // 供 ZipStreamWriter 写入的流，写入的数据转为 data 事件
+  dataWriter(): WritableStream<Uint8Array> {
+    return new WritableStream<Uint8Array>({
+      write: chunk => this.send(chunk),
+    });
+  }
+
+  /**
+   * 执行转换，出错时发送 error 事件，结束后关闭事件流
+   * @param describe 把异常转为展示给用户的错误信息
+   */
+  async run(task: () => Promise<void>, describe: (error: unknown) => string): Promise<void> {
+    try {
+      await task();
+    } catch (e) {
+      console.error('Error during conversion:', e);
+      this.emit({ type: 'error', error: describe(e), details: String(e) });
+    }
+    await this.pending;
+    await this.writer.close().catch(() => undefined);
+  }
+}
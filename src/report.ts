@@ -0,0 +1,166 @@
+/**
+ * 转换报告
+ * 记录每篇文档的转换结果、未支持的卡片和标签以及下载失败的资源，
+ * 以 conversion-report.json 和 REPORT.md 写入 ZIP，避免用户拿到看似完整实则缺失内容的导出结果
+ */
+
+import type { AssetFailure } from './assets';
+import type { ConvertOptions } from './html-to-md';
+import type { ArchiveWriter } from './zip-stream';
+
+export type DocStatus = 'converted' | 'skipped' | 'failed';
+
+export interface DocReport {
+  title: string;
+  // 输出路径，不含扩展名
+  path?: string;
+  // 原文地址或 lakebook 中的文档 url
+  source?: string;
+  status: DocStatus;
+  error?: string;
+  warnings: string[];
+}
+
+export interface ReportSummary {
+  docs: number;
+  converted: number;
+  skipped: number;
+  failed: number;
+  warnings: number;
+  failedAssets: number;
+  unknownCards: number;
+  unknownTags: number;
+}
+
+// ZIP 根目录中报告占用的文件名（不含扩展名），文档命名时需要避开
+export const REPORT_NAME = 'REPORT';
+
+const STATUS_LABELS: Record<DocStatus, string> = {
+  converted: '成功',
+  skipped: '跳过',
+  failed: '失败',
+};
+
+function sortedCounts(counts: Map<string, number>): Record<string, number> {
+  return Object.fromEntries([...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])));
+}
+
+function tableCell(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export class ConversionReport {
+  readonly docs: DocReport[] = [];
+  readonly failedAssets: Array<AssetFailure & { doc?: string }> = [];
+  // 转换中途终止的原因，例如流式读取时才发现压缩包不完整
+  error?: string;
+  private unknownCards = new Map<string, number>();
+  private unknownTags = new Map<string, number>();
+
+  addDoc(doc: Omit<DocReport, 'warnings'> & { warnings?: string[] }): DocReport {
+    const entry = { ...doc, warnings: doc.warnings || [] };
+    this.docs.push(entry);
+    return entry;
+  }
+
+  /**
+   * 返回转换该文档时使用的回调，统计未支持的卡片和标签
+   */
+  track(doc: DocReport): Pick<ConvertOptions, 'onUnknown'> {
+    const seen = new Set<string>();
+    return {
+      onUnknown: (kind, name) => {
+        const counts = kind === 'card' ? this.unknownCards : this.unknownTags;
+        counts.set(name, (counts.get(name) || 0) + 1);
+        if (!seen.has(`${kind}:${name}`)) {
+          seen.add(`${kind}:${name}`);
+          doc.warnings.push(kind === 'card' ? `Unsupported card: ${name}` : `Unsupported tag: <${name}>`);
+        }
+      },
+    };
+  }
+
+  addAssetFailures(doc: DocReport, failures: AssetFailure[]): void {
+    for (const failure of failures) {
+      this.failedAssets.push({ ...failure, doc: doc.path });
+      doc.warnings.push(`Asset not downloaded: ${failure.url} (${failure.reason})`);
+    }
+  }
+
+  summary(): ReportSummary {
+    const count = (status: DocStatus) => this.docs.filter(doc => doc.status === status).length;
+    return {
+      docs: this.docs.length,
+      converted: count('converted'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      warnings: this.docs.reduce((total, doc) => total + doc.warnings.length, 0),
+      failedAssets: this.failedAssets.length,
+      unknownCards: this.unknownCards.size,
+      unknownTags: this.unknownTags.size,
+    };
+  }
+
+  // 放在响应头中的摘要，如 docs=3; converted=2; skipped=0; failed=1; ...
+  summaryHeader(): string {
+    return Object.entries(this.summary())
+      .map(([key, value]) => `${key}=${value}`)
+      .join('; ');
+  }
+
+  toJSON() {
+    return {
+      summary: this.summary(),
+      error: this.error,
+      docs: this.docs,
+      unknownCards: sortedCounts(this.unknownCards),
+      unknownTags: sortedCounts(this.unknownTags),
+      failedAssets: this.failedAssets,
+    };
+  }
+
+  toMarkdown(): string {
+    const summary = this.summary();
+    const lines = [
+      '# 转换报告',
+      '',
+      `共 ${summary.docs} 篇文档：成功 ${summary.converted} 篇，跳过 ${summary.skipped} 篇，失败 ${summary.failed} 篇；`
+        + `警告 ${summary.warnings} 条，资源下载失败 ${summary.failedAssets} 个。`,
+    ];
+    if (this.error) {
+      lines.push('', `> **转换未完成**：${this.error}`);
+    }
+
+    const problems = this.docs.filter(doc => doc.status !== 'converted' || doc.warnings.length > 0);
+    if (problems.length > 0) {
+      lines.push('', '## 需要关注的文档', '', '| 文档 | 状态 | 说明 |', '| --- | --- | --- |');
+      for (const doc of problems) {
+        const notes = [doc.error, ...doc.warnings].filter((note): note is string => !!note);
+        lines.push(`| ${tableCell(doc.path || doc.title)} | ${STATUS_LABELS[doc.status]} | ${notes.map(tableCell).join('<br>')} |`);
+      }
+    }
+
+    for (const [title, counts] of [['未支持的卡片', this.unknownCards], ['未支持的标签', this.unknownTags]] as const) {
+      if (counts.size > 0) {
+        lines.push('', `## ${title}`, '', '| 名称 | 次数 |', '| --- | --- |');
+        for (const [name, count] of Object.entries(sortedCounts(counts))) {
+          lines.push(`| ${tableCell(name)} | ${count} |`);
+        }
+      }
+    }
+
+    if (this.failedAssets.length > 0) {
+      lines.push('', '## 下载失败的资源', '', '| 地址 | 文档 | 原因 |', '| --- | --- | --- |');
+      for (const asset of this.failedAssets) {
+        lines.push(`| ${tableCell(asset.url)} | ${tableCell(asset.doc || '')} | ${tableCell(asset.reason)} |`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  writeTo(zip: ArchiveWriter): void {
+    zip.file('conversion-report.json', JSON.stringify(this.toJSON(), null, 2));
+    zip.file(`${REPORT_NAME}.md`, this.toMarkdown());
+  }
+}
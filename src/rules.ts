@@ -0,0 +1,507 @@
+/**
+ * 内置转换规则
+ * 原 nodeToMarkdown 中的分支逐一改写为规则，调用方可通过 addRule/removeRule 覆盖或移除
+ */
+
+import { decodeHTML } from 'entities';
+import { normalizeLanguage } from './code-languages';
+import { CalloutKind, escapeHtmlText, getDialect } from './dialects';
+import { Node, VOID_TAGS } from './html-parser';
+import type { Rule, RuleContext } from './html-to-md';
+import { assetUrl, cardRenderers, cardValue, CodeBlockCardValue, escapeText, parseCard, parseImageSize, renderFigure, renderPlaceholder } from './lake-cards';
+import { codeSpan, fencedBlock, linkDestination, linkTitle } from './markdown-escape';
+
+// 内容按原样输出、不做 Markdown 转义的元素
+const LITERAL_TAGS = ['pre', 'code', 'kbd', 'samp', 'script', 'style', 'textarea'];
+
+function isInsideLiteral(ancestors: Node[]): boolean {
+  return ancestors.some(ancestor => LITERAL_TAGS.includes(ancestor.tagName || ''));
+}
+
+function isBlankText(node: Node): boolean {
+  return node.type === 'text' && !(node.content || '').trim();
+}
+
+// 以 <br> 结尾的节点（含最后一个非空白子节点以 <br> 结尾的行内元素）
+function endsWithBreak(node: Node): boolean {
+  let last: Node | undefined = node;
+  while (last && last.tagName !== 'br' && last.children?.length) {
+    const children: Node[] = last.children.filter(child => !isBlankText(child));
+    last = children[children.length - 1];
+  }
+  return last?.tagName === 'br';
+}
+
+// 每个父节点中不在行首的子节点，首次用到时一次算出，避免逐个查找兄弟节点
+const notAtLineStart = new WeakMap<Node, Set<Node>>();
+
+// 文本是否位于输出的行首：父节点中的第一段文本，或紧跟在 <br>（含以 <br> 结尾的行内元素）之后
+function isAtLineStart(node: Node, parent: Node | undefined): boolean {
+  if (!parent) return true;
+  let nodes = notAtLineStart.get(parent);
+  if (!nodes) {
+    nodes = new Set();
+    let lineStart = true;
+    for (const child of parent.children || []) {
+      if (!lineStart) nodes.add(child);
+      if (!isBlankText(child)) lineStart = endsWithBreak(child);
+    }
+    notAtLineStart.set(parent, nodes);
+  }
+  return !nodes.has(node);
+}
+
+function textToMarkdown(ctx: RuleContext): string {
+  const { node, ancestors } = ctx;
+  const raw = node.content || '';
+  if (isInsideLiteral(ancestors)) {
+    return decodeHTML(raw);
+  }
+
+  // 普通文本中的换行等同于空格，避免产生意外的行首语法
+  const text = decodeHTML(raw.replace(/[ \t\r\n]*\n[ \t\r\n]*/g, ' '));
+  return escapeText(ctx, text, isAtLineStart(node, ancestors[ancestors.length - 1]));
+}
+
+const LIST_TAGS = ['ul', 'ol'];
+// lake 扁平列表每级缩进的空格数，需不小于父级列表项标记宽度
+const LIST_INDENT = '    ';
+
+function isListNode(node: Node | undefined): boolean {
+  return !!node && node.type === 'element' && LIST_TAGS.includes(node.tagName || '');
+}
+
+function indentLines(text: string, indent: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? indent + line : line))
+    .join('\n');
+}
+
+// lake 格式不嵌套列表，而是用 data-lake-indent 标记层级
+function getLakeIndent(attrs: Record<string, string>): number {
+  const indent = parseInt(attrs['data-lake-indent'] || attrs['lake-indent'] || '0', 10);
+  return indent > 0 ? indent : 0;
+}
+
+// 计算列表项标记：有序列表按 start 属性和兄弟节点位置编号
+function getListMarker(node: Node, parent: Node | undefined): string {
+  if (!parent || parent.tagName !== 'ol') {
+    return '- ';
+  }
+
+  const startAttr = parseInt(parent.attributes?.start || '1', 10);
+  const start = isNaN(startAttr) ? 1 : startAttr;
+  let index = 0;
+  for (const sibling of parent.children || []) {
+    if (sibling === node) break;
+    if (sibling.tagName === 'li') index++;
+  }
+  return `${start + index}. `;
+}
+
+function renderList(ctx: RuleContext): string {
+  const { node, ancestors } = ctx;
+  const attrs = node.attributes || {};
+  const path = [...ancestors, node];
+  // ne-list-wrap 仅作为嵌套层级的容器，缩进由外层列表处理
+  const isWrapper = !!attrs.class?.includes('ne-list-wrap');
+  let lastMarkerWidth = LIST_INDENT.length;
+  let content = '';
+
+  for (const child of node.children || []) {
+    // 忽略列表项之间的空白文本
+    if (child.type === 'text' && !(child.content || '').trim()) continue;
+
+    if (child.tagName === 'li') {
+      lastMarkerWidth = getListMarker(child, node).length;
+      content += ctx.convert(child, path);
+    } else if (isListNode(child)) {
+      // 直接嵌套在列表中的子列表归属于上一个列表项
+      const nested = ctx.convert(child, path).replace(/^\n+|\n+$/g, '');
+      content += (isWrapper ? nested : indentLines(nested, ' '.repeat(lastMarkerWidth))) + '\n';
+    } else {
+      content += ctx.convert(child, path);
+    }
+  }
+
+  if (isWrapper) {
+    return content;
+  }
+
+  const lakeIndent = getLakeIndent(attrs);
+  if (lakeIndent > 0) {
+    content = indentLines(content, LIST_INDENT.repeat(lakeIndent));
+  }
+
+  return `\n${content}\n`;
+}
+
+function renderListItem(ctx: RuleContext): string {
+  const marker = getListMarker(ctx.node, ctx.ancestors[ctx.ancestors.length - 1]);
+  const body = ctx.children.replace(/^\n+|\s+$/g, '');
+
+  // 多段落、代码块等后续行按标记宽度缩进，保持在同一列表项内
+  const [first, ...rest] = body.split('\n');
+  const continuation = indentLines(rest.join('\n'), ' '.repeat(marker.length));
+  return marker + first.trimStart() + (rest.length ? '\n' + continuation : '') + '\n';
+}
+
+// 回退为 HTML 表格时保留的属性
+const HTML_TABLE_ATTRS = ['colspan', 'rowspan', 'href', 'src', 'alt', 'title'];
+
+interface TableCell {
+  node: Node;
+  colspan: number;
+  rowspan: number;
+}
+
+function collectTableRows(node: Node, rows: Node[][] = []): Node[][] {
+  for (const child of node.children || []) {
+    if (child.tagName === 'tr') {
+      rows.push((child.children || []).filter(cell => cell.tagName === 'td' || cell.tagName === 'th'));
+    } else if (child.tagName === 'thead' || child.tagName === 'tbody' || child.tagName === 'tfoot') {
+      collectTableRows(child, rows);
+    }
+  }
+  return rows;
+}
+
+function getSpan(node: Node, name: 'colspan' | 'rowspan'): number {
+  const span = parseInt(node.attributes?.[name] || '1', 10);
+  return span > 1 ? span : 1;
+}
+
+// GFM 单元格只能容纳一行行内内容，含有这些元素的表格整体输出为 HTML 表格
+const CELL_BLOCK_TAGS = ['ul', 'ol', 'pre', 'blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'table', 'hr', 'dl'];
+
+// 单元格中是否有无法压缩为一行的块级内容；块级图片卡片仍可作为行内图片输出
+function hasBlockContent(node: Node): boolean {
+  return (node.children || []).some(child =>
+    CELL_BLOCK_TAGS.includes(child.tagName || '') ||
+    (child.tagName === 'card' && child.attributes?.type === 'block' && child.attributes.name !== 'image') ||
+    hasBlockContent(child)
+  );
+}
+
+// 单元格内容压缩为一行：换行和段落转为 <br />，转义竖线
+function renderTableCell(ctx: RuleContext, node: Node, ancestors: Node[]): string {
+  const path = [...ancestors, node];
+  const content = (node.children || []).map(child => ctx.convert(child, path)).join('');
+  return content
+    .trim()
+    .split(/\s*\n+\s*/)
+    .join('<br />')
+    .replace(/\|/g, '\\|');
+}
+
+// JSX 中属性名区分大小写
+const JSX_ATTR_NAMES: Record<string, string> = { colspan: 'colSpan', rowspan: 'rowSpan' };
+
+// 空元素写成自闭合形式，MDX 方言中属性名改为 JSX 写法、文本中的 { } 改为字符引用
+function nodeToHtml(ctx: RuleContext, node: Node, ancestors: Node[]): string {
+  const mdx = getDialect(ctx.options.dialect).mdx;
+  if (node.type === 'text') {
+    let text = node.content || '';
+    // HTML 表格按行输出，<pre> 中的换行改为字符引用才能保留
+    if (ancestors.some(ancestor => ancestor.tagName === 'pre')) {
+      text = text.replace(/\r?\n/g, '&#10;');
+    }
+    return mdx ? text.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;') : text;
+  }
+
+  const tagName = node.tagName || '';
+  if (tagName === 'card') {
+    const card = parseCard(node.attributes || {});
+    if (card.name === 'codeblock') {
+      return codeBlockHtml(cardValue<CodeBlockCardValue>(card), mdx);
+    }
+    return ctx.convert(node, ancestors).trim();
+  }
+
+  const path = [...ancestors, node];
+  const children = (node.children || []).map(child => nodeToHtml(ctx, child, path)).join('');
+  if (node.type === 'root' || !tagName) {
+    return children;
+  }
+
+  const attrs = Object.entries(node.attributes || {})
+    .filter(([name]) => HTML_TABLE_ATTRS.includes(name))
+    .map(([name, value]) => ` ${(mdx && JSX_ATTR_NAMES[name]) || name}="${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`)
+    .join('');
+  if (VOID_TAGS.includes(tagName)) {
+    return `<${tagName}${attrs} />`;
+  }
+  return `<${tagName}${attrs}>${children}</${tagName}>`;
+}
+
+// HTML 表格中的代码块卡片，换行以字符引用表示
+function codeBlockHtml(value: Partial<CodeBlockCardValue>, mdx: boolean): string {
+  const lang = normalizeLanguage(value.mode);
+  const className = lang ? ` ${mdx ? 'className' : 'class'}="language-${lang}"` : '';
+  const code = escapeHtmlText(String(value.code ?? ''), mdx).replace(/\r?\n/g, '&#10;');
+  return `<pre><code${className}>${code}</code></pre>`;
+}
+
+function renderHtmlTable(ctx: RuleContext, rows: Node[][], ancestors: Node[]): string {
+  const lines = ['<table>'];
+  for (const row of rows) {
+    lines.push('  <tr>');
+    for (const cell of row) {
+      lines.push(`    ${nodeToHtml(ctx, cell, ancestors).replace(/\s*\n\s*/g, ' ')}`);
+    }
+    lines.push('  </tr>');
+  }
+  lines.push('</table>');
+  return `\n${lines.join('\n')}\n\n`;
+}
+
+function renderTable(ctx: RuleContext): string {
+  const { node, ancestors, options } = ctx;
+  const path = [...ancestors, node];
+  const rows = collectTableRows(node).filter(row => row.length > 0);
+  if (rows.length === 0) {
+    return '';
+  }
+
+  // rowspan 超出表格末尾时截断，避免展开出多余的空行
+  const cells: TableCell[][] = rows.map((row, rowIndex) =>
+    row.map(cell => ({
+      node: cell,
+      colspan: getSpan(cell, 'colspan'),
+      rowspan: Math.min(getSpan(cell, 'rowspan'), rows.length - rowIndex),
+    }))
+  );
+  const hasMergedCells = cells.some(row => row.some(cell => cell.colspan > 1 || cell.rowspan > 1));
+  // 方言不支持表格语法或单元格中有块级内容时整体输出 HTML 表格
+  if (
+    (hasMergedCells && options.mergedCells === 'html') ||
+    !getDialect(options.dialect).tables ||
+    rows.some(row => row.some(hasBlockContent))
+  ) {
+    return renderHtmlTable(ctx, rows, path);
+  }
+
+  // 按 colspan/rowspan 展开为规则网格，被合并的位置留空
+  const grid: (string | undefined)[][] = [];
+  cells.forEach((row, rowIndex) => {
+    grid[rowIndex] = grid[rowIndex] || [];
+    let col = 0;
+    for (const cell of row) {
+      while (grid[rowIndex][col] !== undefined) col++;
+      const content = renderTableCell(ctx, cell.node, path);
+      for (let r = 0; r < cell.rowspan; r++) {
+        const target = (grid[rowIndex + r] = grid[rowIndex + r] || []);
+        for (let c = 0; c < cell.colspan; c++) {
+          target[col + c] = r === 0 && c === 0 ? content : '';
+        }
+      }
+      col += cell.colspan;
+    }
+  });
+
+  const columnCount = Math.max(...grid.map(row => row.length));
+  const formatRow = (row: (string | undefined)[]) => {
+    const values = Array.from({ length: columnCount }, (_, i) => row[i] || '');
+    return `| ${values.join(' | ')} |`;
+  };
+
+  // GFM 表格必须有表头，没有 <th> 时以第一行作为表头
+  const lines = [
+    formatRow(grid[0]),
+    `| ${Array.from({ length: columnCount }, () => '---').join(' | ')} |`,
+    ...grid.slice(1).map(formatRow),
+  ];
+  return `\n${lines.join('\n')}\n\n`;
+}
+
+// 节点内的纯文本
+export function textContent(node: Node): string {
+  if (node.type === 'text') {
+    return decodeHTML(node.content || '');
+  }
+  return (node.children || []).map(textContent).join('');
+}
+
+function renderHeading(ctx: RuleContext): string {
+  const level = parseInt((ctx.node.tagName || 'h1').slice(1), 10);
+  const content = ctx.children.trim();
+  const id = ctx.node.attributes?.id;
+  if (id && ctx.options.onHeading) {
+    ctx.options.onHeading(id, textContent(ctx.node).replace(/\s+/g, ' ').trim());
+  }
+  // Setext 风格仅支持一、二级标题
+  if (ctx.options.headingStyle === 'SETEXT' && level <= 2) {
+    return `\n${content}\n${(level === 1 ? '=' : '-').repeat(content.length)}\n\n`;
+  }
+  return `\n${'#'.repeat(level)} ${content}\n\n`;
+}
+
+function renderPre(ctx: RuleContext): string {
+  const attrs = ctx.node.attributes || {};
+  // 检查是否有 data-language 属性
+  const lang = normalizeLanguage(attrs['data-language'] || attrs['class']?.match(/language-([\w#+-]+)/)?.[1]);
+  const codeContent = ctx.children.replace(/^\n+|\n+$/g, '');
+  return `\n${fencedBlock(codeContent, lang)}\n\n`;
+}
+
+// 语雀高亮块的类型，color1-color5 为新版编辑器按颜色区分的类型
+const ALERT_KINDS: Record<string, CalloutKind> = {
+  info: 'info',
+  tips: 'tip',
+  tip: 'tip',
+  success: 'tip',
+  note: 'note',
+  warning: 'warning',
+  danger: 'danger',
+  error: 'danger',
+  color1: 'warning',
+  color2: 'tip',
+  color3: 'info',
+  color4: 'note',
+  color5: 'danger',
+};
+
+const ALERT_CLASS_RE = /(?:^|\s)(?:lake|ne)-(?:alert|panel)(?=\s|$)/;
+const ALERT_TYPE_CLASS_RE = /(?:^|\s)(?:lake|ne)-(?:alert|panel)-(\w+)(?=\s|$)/;
+
+function getAlertKind(node: Node): CalloutKind {
+  const attrs = node.attributes || {};
+  const type = attrs['data-type'] || attrs['class']?.match(ALERT_TYPE_CLASS_RE)?.[1] || '';
+  return ALERT_KINDS[type.toLowerCase()] || 'note';
+}
+
+// 块内容之间只保留一个空行，避免引用块中出现连续的空行
+function blockBody(markdown: string): string {
+  return markdown.trim().replace(/\n{3,}/g, '\n\n');
+}
+
+function renderAlert(ctx: RuleContext): string {
+  const body = blockBody(ctx.children);
+  if (!body) return '';
+  return `\n${getDialect(ctx.options.dialect).callout(getAlertKind(ctx.node), '', body)}\n\n`;
+}
+
+// 折叠块的标题取 summary 的纯文本，其余子节点作为内容
+function renderDetails(ctx: RuleContext): string {
+  const children = ctx.node.children || [];
+  const summary = children.find(child => child.tagName === 'summary');
+  const title = summary ? textContent(summary).replace(/\s+/g, ' ').trim() : '';
+  const body = blockBody(children
+    .filter(child => child !== summary)
+    .map(child => ctx.convert(child))
+    .join(''));
+  return `\n${getDialect(ctx.options.dialect).collapsible(title, body)}\n\n`;
+}
+
+function renderBlockquote(ctx: RuleContext): string {
+  const lines = ctx.children.trim().split('\n');
+  return '\n' + lines.map(line => `> ${line}`).join('\n') + '\n\n';
+}
+
+function renderLink(ctx: RuleContext): string {
+  const attrs = ctx.node.attributes || {};
+  const href = attrs.href || '';
+  if (!href) return ctx.children;
+  const asset = ctx.options.resolveAsset?.(href);
+  if (asset != null) return `[${ctx.children}](${linkDestination(asset)}${linkTitle(attrs.title)})`;
+  const resolved = ctx.options.resolveLink?.(href, ctx.children);
+  if (resolved != null) return resolved;
+  return `[${ctx.children}](${linkDestination(href)}${linkTitle(attrs.title)})`;
+}
+
+function renderImage(ctx: RuleContext): string {
+  const attrs = ctx.node.attributes || {};
+  const src = assetUrl(ctx, attrs.src || '');
+  const alt = attrs.alt || '';
+  const width = parseImageSize(attrs.width);
+  const height = parseImageSize(attrs.height);
+  if (ctx.options.imageSize !== 'none' && (width || height)) {
+    return renderFigure(ctx, { src, alt, width, height });
+  }
+  return `![${escapeText(ctx, alt)}](${linkDestination(src)}${linkTitle(attrs.title)})`;
+}
+
+// <video>、<audio> 输出为指向媒体文件的链接
+function renderMedia(ctx: RuleContext): string {
+  const attrs = ctx.node.attributes || {};
+  const source = (ctx.node.children || []).find(child => child.tagName === 'source');
+  const src = attrs.src || source?.attributes?.src || '';
+  if (!src) return '';
+  const label = ctx.node.tagName === 'audio' ? '音频' : '视频';
+  return `[${escapeText(ctx, attrs.title || label)}](${linkDestination(assetUrl(ctx, src))})`;
+}
+
+// 高亮：<mark> 或 lake 中带背景色的 <span>
+function isHighlight(node: Node): boolean {
+  if (node.type !== 'element') return false;
+  if (node.tagName === 'mark') return true;
+  const background = node.attributes?.style?.match(/background(?:-color)?\s*:\s*([^;]+)/i)?.[1].trim();
+  return node.tagName === 'span' && !!background && !/^(transparent|initial|inherit|none)$/i.test(background);
+}
+
+// <input type="checkbox"> 或 lake 编辑器输出的 <span class="ne-checkbox">
+function isCheckbox(node: Node): boolean {
+  if (node.type !== 'element') return false;
+  const attrs = node.attributes || {};
+  if (node.tagName === 'input') {
+    return attrs.type === 'checkbox';
+  }
+  return /(?:^|\s)ne-checkbox(?=\s|$)/.test(attrs.class || '');
+}
+
+function renderCheckbox(ctx: RuleContext): string {
+  const attrs = ctx.node.attributes || {};
+  const checked = 'checked' in attrs
+    || attrs['data-checked'] === 'true'
+    || /(?:^|\s)ne-checkbox-checked(?=\s|$)/.test(attrs.class || '');
+  return getDialect(ctx.options.dialect).taskMarker(checked);
+}
+
+// 语雀 lake 卡片：每种卡片对应一条规则，未支持的卡片由 cardPlaceholder 兜底
+const cardRules: Array<[string, Rule]> = Object.entries(cardRenderers).map(([cardName, render]) => [
+  `card:${cardName}`,
+  { filter: { cardName }, replacement: ctx => render(ctx.card!, ctx) },
+]);
+
+export const defaultRules: Array<[string, Rule]> = [
+  ['text', { filter: node => node.type === 'text', replacement: textToMarkdown }],
+  ['heading', { filter: { tagName: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'] }, replacement: renderHeading }],
+  ['paragraph', { filter: { tagName: 'p' }, replacement: ctx => `\n${ctx.children}\n\n` }],
+  ['lineBreak', { filter: { tagName: 'br' }, replacement: () => '\n' }],
+  ['horizontalRule', { filter: { tagName: 'hr' }, replacement: () => '\n---\n\n' }],
+  ['strong', { filter: { tagName: ['strong', 'b'] }, replacement: ctx => `**${ctx.children}**` }],
+  ['emphasis', { filter: { tagName: ['em', 'i'] }, replacement: ctx => `*${ctx.children}*` }],
+  ['code', {
+    filter: { tagName: 'code' },
+    // <pre><code> 由外层 pre 生成代码块
+    replacement: ctx => (ctx.ancestors.some(ancestor => ancestor.tagName === 'pre') ? ctx.children : codeSpan(ctx.children)),
+  }],
+  ['codeBlock', { filter: { tagName: 'pre' }, replacement: renderPre }],
+  ['alert', { filter: { attributes: { class: ALERT_CLASS_RE } }, replacement: renderAlert }],
+  ['details', { filter: { tagName: 'details' }, replacement: renderDetails }],
+  ['blockquote', { filter: { tagName: 'blockquote' }, replacement: renderBlockquote }],
+  ['list', { filter: { tagName: LIST_TAGS }, replacement: renderList }],
+  ['listItem', { filter: { tagName: 'li' }, replacement: renderListItem }],
+  ['link', { filter: { tagName: 'a' }, replacement: renderLink }],
+  ['image', { filter: { tagName: 'img' }, replacement: renderImage }],
+  ['table', { filter: { tagName: 'table' }, replacement: renderTable }],
+  ['media', { filter: { tagName: ['video', 'audio'] }, replacement: renderMedia }],
+  ['strikethrough', {
+    filter: { tagName: ['del', 's', 'strike'] },
+    replacement: ctx => getDialect(ctx.options.dialect).strikethrough(ctx.children),
+  }],
+  ['superscript', { filter: { tagName: 'sup' }, replacement: ctx => getDialect(ctx.options.dialect).superscript(ctx.children) }],
+  ['subscript', { filter: { tagName: 'sub' }, replacement: ctx => getDialect(ctx.options.dialect).subscript(ctx.children) }],
+  ['highlight', { filter: isHighlight, replacement: ctx => getDialect(ctx.options.dialect).highlight(ctx.children) }],
+  ['checkbox', { filter: isCheckbox, replacement: renderCheckbox }],
+  ...cardRules,
+  ['cardPlaceholder', {
+    filter: { tagName: 'card' },
+    replacement: ctx => {
+      ctx.options.onUnknown?.('card', ctx.card!.name);
+      return renderPlaceholder(ctx.card!);
+    },
+  }],
+  ['remove', { filter: { tagName: ['script', 'style', 'noscript'] }, replacement: () => '' }],
+];
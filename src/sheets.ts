@@ -0,0 +1,285 @@
+/**
+ * 表格文档导出
+ * 语雀电子表格（lakesheet）和数据表的正文是 JSON，每个工作表导出为 CSV，
+ * 另外生成一篇 Markdown 预览，合并单元格由表格规则按 mergedCells 选项处理
+ */
+
+import { inflate } from 'pako';
+import { sanitizeFileName } from './file-naming';
+
+export interface SheetCell {
+  text: string;
+  rowspan: number;
+  colspan: number;
+  // 被合并单元格覆盖的位置
+  covered: boolean;
+}
+
+export interface Sheet {
+  name: string;
+  rows: SheetCell[][];
+}
+
+interface MergeRange {
+  row: number;
+  col: number;
+  rowCount: number;
+  colCount: number;
+}
+
+// 预览默认显示的最大行数（含表头）
+export const DEFAULT_SHEET_PREVIEW_ROWS = 100;
+
+export function isSheetDoc(doc: { type?: string; format?: string }): boolean {
+  return doc.format === 'lakesheet' || doc.format === 'laketable'
+    || doc.type === 'Sheet' || doc.type === 'Table';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// 按字符串键读取的对象或数组，其余类型视为空
+function asIndexed(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? value as Record<string, unknown> : {};
+}
+
+function binaryString(text: string): Uint8Array {
+  const data = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    data[i] = text.charCodeAt(i) & 0xff;
+  }
+  return data;
+}
+
+function base64(text: string): Uint8Array {
+  return binaryString(atob(text));
+}
+
+// sheet 字段可能是数组、JSON 字符串，或以二进制字符串 / base64 形式保存的 deflate 数据
+function decodeSheetField(sheet: unknown): unknown {
+  if (typeof sheet !== 'string') {
+    return sheet;
+  }
+
+  const decoders = [
+    () => JSON.parse(sheet),
+    () => JSON.parse(inflate(binaryString(sheet), { to: 'string' })),
+    () => JSON.parse(inflate(base64(sheet), { to: 'string' })),
+  ];
+  for (const decode of decoders) {
+    try {
+      return decode();
+    } catch (e) {
+      // 尝试下一种编码
+    }
+  }
+  throw new Error('Unsupported sheet encoding');
+}
+
+function formatNumber(value: number, format: string | undefined): string {
+  if (format) {
+    const decimals = format.match(/\.(0+)/)?.[1].length ?? 0;
+    const percent = format.includes('%');
+    const scaled = percent ? value * 100 : value;
+    let text = scaled.toFixed(decimals);
+    if (format.includes(',')) {
+      const [integer, fraction] = text.split('.');
+      text = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',') + (fraction ? `.${fraction}` : '');
+    }
+    return percent ? `${text}%` : text;
+  }
+  // 去掉浮点运算带来的尾差，如 0.1 + 0.2
+  return String(Number(value.toPrecision(15)));
+}
+
+function cellText(cell: unknown): string {
+  if (cell === null || cell === undefined) return '';
+  if (typeof cell === 'number') return formatNumber(cell, undefined);
+  if (typeof cell === 'boolean') return cell ? 'TRUE' : 'FALSE';
+  if (Array.isArray(cell)) return cell.map(cellText).join('');
+  if (!isRecord(cell)) return String(cell);
+
+  // m 为表格中显示的格式化文本
+  if (typeof cell.m === 'string') return cell.m;
+  const value = cell.v ?? cell.value ?? cell.text;
+  if (typeof value === 'number') {
+    const format = cell.fmt ?? cell.format ?? asIndexed(cell.s).fmt;
+    return formatNumber(value, typeof format === 'string' ? format : undefined);
+  }
+  return cellText(value);
+}
+
+// data 为 { 行: { 列: 单元格 } } 或二维数组
+function readGrid(data: unknown): string[][] {
+  const grid: string[][] = [];
+  for (const [rowKey, row] of Object.entries(asIndexed(data))) {
+    const rowIndex = Number(rowKey);
+    if (!Number.isInteger(rowIndex) || rowIndex < 0 || !row || typeof row !== 'object') continue;
+    for (const [colKey, cell] of Object.entries(row as Record<string, unknown>)) {
+      const colIndex = Number(colKey);
+      if (!Number.isInteger(colIndex) || colIndex < 0) continue;
+      (grid[rowIndex] ||= [])[colIndex] = cellText(cell);
+    }
+  }
+  return grid;
+}
+
+function readMerges(merges: unknown): MergeRange[] {
+  const list = Array.isArray(merges) ? merges : Object.values(asIndexed(merges));
+  return list
+    .filter(isRecord)
+    .map(merge => ({
+      row: Number(merge.row ?? merge.r ?? merge.startRow),
+      col: Number(merge.col ?? merge.c ?? merge.startCol),
+      rowCount: Number(merge.rowCount ?? merge.rs ?? 1),
+      colCount: Number(merge.colCount ?? merge.cs ?? 1),
+    }))
+    .filter(merge => [merge.row, merge.col, merge.rowCount, merge.colCount].every(Number.isInteger));
+}
+
+function buildSheet(name: string, grid: string[][], merges: MergeRange[]): Sheet {
+  // 去掉末尾的空行和空列
+  let rowCount = 0;
+  let colCount = 0;
+  grid.forEach((row, rowIndex) => {
+    (row || []).forEach((text, colIndex) => {
+      if (text) {
+        rowCount = Math.max(rowCount, rowIndex + 1);
+        colCount = Math.max(colCount, colIndex + 1);
+      }
+    });
+  });
+
+  const rows: SheetCell[][] = Array.from({ length: rowCount }, (_, rowIndex) =>
+    Array.from({ length: colCount }, (_, colIndex) => ({
+      text: grid[rowIndex]?.[colIndex] || '',
+      rowspan: 1,
+      colspan: 1,
+      covered: false,
+    })));
+
+  for (const merge of merges) {
+    const cell = rows[merge.row]?.[merge.col];
+    if (!cell) continue;
+    cell.rowspan = Math.min(merge.rowCount, rowCount - merge.row);
+    cell.colspan = Math.min(merge.colCount, colCount - merge.col);
+    for (let r = merge.row; r < merge.row + cell.rowspan; r++) {
+      for (let c = merge.col; c < merge.col + cell.colspan; c++) {
+        if (r !== merge.row || c !== merge.col) {
+          rows[r][c].covered = true;
+        }
+      }
+    }
+  }
+  return { name, rows };
+}
+
+// 数据表：columns 定义字段，records 中按字段 id 保存值
+function readTable(data: Record<string, unknown>): Sheet {
+  const columns = asArray(data.columns || data.fields).filter(isRecord);
+  const records = asArray(data.records || data.rows);
+  const grid = [
+    columns.map(column => String(column.name ?? column.title ?? column.id ?? '')),
+    ...records.map(record => columns.map(column => {
+      const row = asIndexed(record);
+      const values = asIndexed(row.values || row.cells || record);
+      return cellText(values[String(column.id)] ?? values[String(column.name)]);
+    })),
+  ];
+  return buildSheet(String(data.name || 'Table'), grid, []);
+}
+
+/**
+ * 解析表格文档的正文
+ */
+export function parseSheetBody(body: string): Sheet[] {
+  const content: unknown = JSON.parse(body);
+  const root = asIndexed(content);
+  const data = decodeSheetField(root.sheet ?? root.sheets ?? root.table ?? content);
+
+  if (isRecord(data) && (data.columns || data.fields)) {
+    return [readTable(data)];
+  }
+  const sheets = Array.isArray(data) ? data : [data];
+  return sheets.map(asIndexed).map((sheet, index) => buildSheet(
+    String(sheet.name || `Sheet${index + 1}`),
+    Array.isArray(sheet.data)
+      ? sheet.data.map(row => asArray(row).map(cellText))
+      : readGrid(sheet.data || sheet.cells),
+    readMerges(sheet.mergeCells ?? sheet.merges),
+  ));
+}
+
+/**
+ * 每个工作表的 CSV 文件名，多个工作表时在文档名后追加工作表名
+ */
+export function sheetCsvNames(baseName: string, sheets: Sheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map(sheet => {
+    const base = sheets.length > 1 ? `${baseName}_${sanitizeFileName(sheet.name)}` : baseName;
+    let name = base;
+    for (let index = 2; used.has(name.toLowerCase()); index++) {
+      name = `${base}-${index}`;
+    }
+    used.add(name.toLowerCase());
+    return `${name}.csv`;
+  });
+}
+
+function csvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 导出为 CSV，合并单元格的值只保留在左上角
+ * 开头的 BOM 让 Excel 按 UTF-8 识别中文
+ */
+export function sheetToCsv(sheet: Sheet): string {
+  const lines = sheet.rows.map(row => row.map(cell => csvField(cell.covered ? '' : cell.text)).join(','));
+  return `\ufeff${lines.join('\r\n')}\r\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function tableHtml(rows: SheetCell[][]): string {
+  const rowHtml = (row: SheetCell[], tag: string) => row
+    .filter(cell => !cell.covered)
+    .map(cell => {
+      const span = (cell.rowspan > 1 ? ` rowspan="${cell.rowspan}"` : '') + (cell.colspan > 1 ? ` colspan="${cell.colspan}"` : '');
+      return `<${tag}${span}>${escapeHtml(cell.text).replace(/\r?\n/g, '<br>')}</${tag}>`;
+    })
+    .join('');
+  const [header, ...body] = rows;
+  return `<table><thead><tr>${rowHtml(header, 'th')}</tr></thead><tbody>${body.map(row => `<tr>${rowHtml(row, 'td')}</tr>`).join('')}</tbody></table>`;
+}
+
+/**
+ * 生成预览的 HTML，每个工作表一个小节，超过 maxRows 行时截断并链接到完整的 CSV
+ * @param csvPaths 每个工作表对应的 CSV 相对路径
+ */
+export function sheetPreviewHtml(sheets: Sheet[], csvPaths: string[], maxRows: number): string {
+  return sheets.map((sheet, index) => {
+    const csvLink = `<a href="${escapeHtml(csvPaths[index])}">${escapeHtml(csvPaths[index].split('/').pop() || '')}</a>`;
+    const heading = sheets.length > 1 ? `<h2>${escapeHtml(sheet.name)}</h2>` : '';
+    if (sheet.rows.length === 0) {
+      return `${heading}<p>空表格</p>`;
+    }
+
+    // 截断时不能把合并单元格拆开，跨越截断位置的合并单元格缩短到可见部分
+    const rows = sheet.rows.slice(0, maxRows).map((row, rowIndex) => row.map(cell => ({
+      ...cell,
+      rowspan: Math.min(cell.rowspan, maxRows - rowIndex),
+    })));
+    const note = sheet.rows.length > maxRows
+      ? `<p>仅预览前 ${maxRows} 行，共 ${sheet.rows.length} 行，完整数据见 ${csvLink}</p>`
+      : `<p>完整数据：${csvLink}</p>`;
+    return `${heading}${tableHtml(rows)}${note}`;
+  }).join('');
+}
@@ -0,0 +1,258 @@
+/**
+ * tar 读取
+ * 从流中逐个读出 tar 条目，只缓存当前条目的内容，
+ * 大文件不需要先整体读入内存再解析
+ */
+
+export interface TarEntry {
+  name: string;
+  type: 'file' | 'directory';
+  // 目录的内容为空
+  data: Uint8Array;
+}
+
+const BLOCK_SIZE = 512;
+
+// 按需从流中读取指定长度的字节
+class ByteReader {
+  private chunks: Uint8Array[] = [];
+  private buffered = 0;
+  private done = false;
+
+  constructor(private reader: ReadableStreamDefaultReader<Uint8Array>) {}
+
+  /**
+   * 读取 length 个字节，流提前结束时返回已读到的部分
+   */
+  async read(length: number): Promise<Uint8Array> {
+    await this.fill(length);
+    const result = new Uint8Array(Math.min(length, this.buffered));
+    let offset = 0;
+    while (offset < result.length) {
+      const chunk = this.chunks[0];
+      const count = Math.min(chunk.length, result.length - offset);
+      result.set(chunk.subarray(0, count), offset);
+      this.consume(count);
+      offset += count;
+    }
+    return result;
+  }
+
+  /**
+   * 跳过 length 个字节，不做拷贝，返回实际跳过的字节数
+   */
+  async skip(length: number): Promise<number> {
+    let remaining = length;
+    while (remaining > 0) {
+      await this.fill(1);
+      if (this.buffered === 0) break;
+      const count = Math.min(this.chunks[0].length, remaining);
+      this.consume(count);
+      remaining -= count;
+    }
+    return length - remaining;
+  }
+
+  async cancel(): Promise<void> {
+    await this.reader.cancel().catch(() => undefined);
+  }
+
+  private async fill(length: number): Promise<void> {
+    while (this.buffered < length && !this.done) {
+      const { done, value } = await this.reader.read();
+      if (done) {
+        this.done = true;
+      } else if (value.length > 0) {
+        this.chunks.push(value);
+        this.buffered += value.length;
+      }
+    }
+  }
+
+  private consume(count: number): void {
+    const chunk = this.chunks[0];
+    if (count === chunk.length) {
+      this.chunks.shift();
+    } else {
+      this.chunks[0] = chunk.subarray(count);
+    }
+    this.buffered -= count;
+  }
+}
+
+// 压缩包损坏、不完整或不是 tar 格式
+export class TarError extends Error {}
+
+// 长文件名和 PAX 扩展头的大小上限，防止损坏的头部导致读入大量数据
+const MAX_METADATA_SIZE = 1024 * 1024;
+
+const decoder = new TextDecoder('utf-8');
+
+function readString(header: Uint8Array, start: number, length: number): string {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+// 数值字段为八进制文本，超出范围时 GNU tar 使用首位为 0x80 的 base-256 编码
+function readNumber(header: Uint8Array, start: number, length: number, field: string): number {
+  if (header[start] & 0x80) {
+    if (header[start] & 0x40) {
+      throw new TarError(`Negative ${field} in tar header`);
+    }
+    let value = header[start] & 0x3f;
+    for (let i = start + 1; i < start + length; i++) {
+      value = value * 256 + header[i];
+    }
+    if (!Number.isSafeInteger(value)) {
+      throw new TarError(`Invalid ${field} in tar header`);
+    }
+    return value;
+  }
+
+  const text = readString(header, start, length).trim();
+  if (!/^[0-7]*$/.test(text)) {
+    throw new TarError(`Invalid ${field} in tar header`);
+  }
+  return text ? parseInt(text, 8) : 0;
+}
+
+// 校验和按校验和字段全为空格计算，兼容按有符号字节计算的旧实现
+function verifyChecksum(header: Uint8Array): void {
+  const expected = readNumber(header, 148, 8, 'checksum');
+  let unsigned = 0;
+  let signed = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    const byte = i >= 148 && i < 156 ? 32 : header[i];
+    unsigned += byte;
+    signed += byte > 127 ? byte - 256 : byte;
+  }
+  if (expected !== unsigned && expected !== signed) {
+    throw new TarError('Invalid tar header checksum');
+  }
+}
+
+// PAX 扩展头由 "<长度> <键>=<值>\n" 形式的记录组成，长度包含记录本身
+function parsePax(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length && data[offset] !== 0) {
+    const space = data.indexOf(32, offset);
+    const length = space === -1 ? NaN : Number(decoder.decode(data.subarray(offset, space)));
+    if (!Number.isInteger(length) || length <= space - offset || offset + length > data.length) {
+      throw new TarError('Invalid PAX header');
+    }
+    const record = decoder.decode(data.subarray(space + 1, offset + length - 1));
+    const equals = record.indexOf('=');
+    if (equals === -1) {
+      throw new TarError('Invalid PAX header');
+    }
+    records[record.slice(0, equals)] = record.slice(equals + 1);
+    offset += length;
+  }
+  return records;
+}
+
+// 统一为不带开头 ./ 或 / 的相对路径
+function normalizeName(name: string): string {
+  return name.replace(/^(?:\.?\/)+/, '');
+}
+
+/**
+ * 逐个读出 tar 中的文件和目录，调用方提前结束迭代时取消底层的流
+ * 支持 ustar 前缀、GNU 长文件名、PAX 扩展头和 base-256 编码的大小；
+ * 压缩包损坏或不完整时抛出 TarError
+ */
+export async function* readTar(stream: ReadableStream<Uint8Array>): AsyncGenerator<TarEntry> {
+  const input = new ByteReader(stream.getReader());
+  // 全局 PAX 扩展头对之后所有条目生效，其余扩展只对下一个条目生效
+  let globalPax: Record<string, string> = {};
+  let pax: Record<string, string> = {};
+  let longName: string | null = null;
+
+  const padding = (size: number) => Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE - size;
+  const truncated = () => new TarError('Unexpected end of tar archive');
+  const readData = async (size: number): Promise<Uint8Array> => {
+    const data = await input.read(size);
+    if (data.length < size || await input.skip(padding(size)) < padding(size)) {
+      throw truncated();
+    }
+    return data;
+  };
+  const skipData = async (size: number): Promise<void> => {
+    if (await input.skip(size + padding(size)) < size + padding(size)) {
+      throw truncated();
+    }
+  };
+
+  try {
+    while (true) {
+      const header = await input.read(BLOCK_SIZE);
+      // 流在条目之间结束时视为正常结束，两个全零块是标准的结束标记
+      if (header.length === 0 || header.every(b => b === 0)) break;
+      if (header.length < BLOCK_SIZE) {
+        throw truncated();
+      }
+      verifyChecksum(header);
+
+      const typeFlag = String.fromCharCode(header[156]);
+      const size = readNumber(header, 124, 12, 'size');
+
+      if (typeFlag === 'L' || typeFlag === 'K' || typeFlag === 'x' || typeFlag === 'g') {
+        if (size > MAX_METADATA_SIZE) {
+          throw new TarError('Tar extended header too large');
+        }
+        const data = await readData(size);
+        if (typeFlag === 'L') {
+          longName = readString(data, 0, data.length);
+        } else if (typeFlag === 'x') {
+          pax = { ...pax, ...parsePax(data) };
+        } else if (typeFlag === 'g') {
+          globalPax = { ...globalPax, ...parsePax(data) };
+        }
+        // K 为链接目标的长名称，不需要
+        continue;
+      }
+
+      const attrs = { ...globalPax, ...pax };
+      let name = readString(header, 0, 100);
+      // 只有 POSIX ustar 格式才有前缀字段，旧版 GNU 格式在同一位置保存其他信息
+      const prefix = readString(header, 257, 6) === 'ustar' ? readString(header, 345, 155) : '';
+      if (prefix) {
+        name = prefix + '/' + name;
+      }
+      name = normalizeName(attrs.path ?? longName ?? name);
+
+      let entrySize = size;
+      if (attrs.size !== undefined) {
+        entrySize = Number(attrs.size);
+        if (!Number.isSafeInteger(entrySize) || entrySize < 0) {
+          throw new TarError('Invalid size in PAX header');
+        }
+      }
+      pax = {};
+      longName = null;
+
+      if (typeFlag === '0' || typeFlag === '\0' || typeFlag === '7') {
+        yield { name, type: 'file', data: await readData(entrySize) };
+      } else if (typeFlag === '5') {
+        await skipData(entrySize);
+        yield { name: name.replace(/\/+$/, ''), type: 'directory', data: new Uint8Array(0) };
+      } else {
+        // 链接、设备文件等只跳过其数据
+        await skipData(entrySize);
+      }
+    }
+  } catch (e) {
+    throw e instanceof TarError ? e : new TarError(`Invalid archive data: ${e instanceof Error ? e.message : String(e)}`);
+  } finally {
+    await input.cancel();
+  }
+}
+
+/**
+ * 解压 gzip 流
+ */
+export function gunzip(stream: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  return stream.pipeThrough(new DecompressionStream('gzip'));
+}
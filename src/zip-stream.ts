@@ -0,0 +1,190 @@
+/**
+ * 流式 ZIP 写入
+ * 每个文件写入后立即输出到可写流，只在内存中保留中央目录，
+ * 输出大小不再受限于内存。文件以存储方式写入，与 JSZip 默认的 STORE 一致
+ */
+
+// 可写入文件的压缩包，JSZip 和 ZipStreamWriter 都满足该接口
+export interface ArchiveWriter {
+  file(path: string, content: string | Uint8Array): unknown;
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// ZIP 不使用 ZIP64 扩展时的大小和数量上限
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+const MAX_COMMENT = 0xffff;
+// 通用标志位 11：文件名为 UTF-8 编码
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS 格式的时间和日期
+function dosDateTime(date: Date): [number, number] {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return [time, day];
+}
+
+export class ZipStreamWriter implements ArchiveWriter {
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private entries: CentralEntry[] = [];
+  private names = new Set<string>();
+  private offset = 0;
+  // 按顺序串联的写入操作，出错后不再继续写入
+  private pending: Promise<void> = Promise.resolve();
+  private error: unknown = null;
+  private encoder = new TextEncoder();
+  private time: number;
+  private date: number;
+
+  constructor(writable: WritableStream<Uint8Array>, modified = new Date()) {
+    this.writer = writable.getWriter();
+    [this.time, this.date] = dosDateTime(modified);
+  }
+
+  /**
+   * 追加一个文件，写入在后台按顺序进行，通过 flush 等待写入完成
+   * 重复的路径只保留第一次写入的内容
+   */
+  file(path: string, content: string | Uint8Array): this {
+    if (this.names.has(path)) {
+      console.warn(`Duplicate zip entry skipped: ${path}`);
+      return this;
+    }
+    this.names.add(path);
+
+    const data = typeof content === 'string' ? this.encoder.encode(content) : content;
+    this.enqueue(() => this.writeFile(path, data));
+    return this;
+  }
+
+  /**
+   * 等待已追加的文件写入可写流，消费方读取较慢时在此等待，避免待写数据堆积在内存中
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+    if (this.error) throw this.error;
+  }
+
+  /**
+   * 写入中央目录并关闭可写流
+   * @param comment 写在 ZIP 末尾的归档注释，`unzip -z` 可查看
+   */
+  async close(comment = ''): Promise<void> {
+    this.enqueue(() => this.writeCentralDirectory(this.encoder.encode(comment).subarray(0, MAX_COMMENT)));
+    await this.flush();
+    await this.writer.close();
+  }
+
+  /**
+   * 中止输出，读取方会收到错误而不是一个不完整的 ZIP
+   */
+  async abort(reason: unknown): Promise<void> {
+    this.error ||= reason;
+    await this.writer.abort(reason).catch(() => undefined);
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.pending = this.pending.then(async () => {
+      if (this.error) return;
+      try {
+        await task();
+      } catch (e) {
+        this.error = e;
+      }
+    });
+  }
+
+  private async writeFile(path: string, data: Uint8Array): Promise<void> {
+    const name = this.encoder.encode(path);
+    if (this.entries.length >= MAX_ENTRIES || data.length > MAX_SIZE) {
+      throw new Error('Zip archive too large');
+    }
+
+    const entry: CentralEntry = { name, crc: crc32(data), size: data.length, offset: this.offset };
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true);
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(8, 0, true);
+    view.setUint16(10, this.time, true);
+    view.setUint16(12, this.date, true);
+    view.setUint32(14, entry.crc, true);
+    view.setUint32(18, entry.size, true);
+    view.setUint32(22, entry.size, true);
+    view.setUint16(26, name.length, true);
+    view.setUint16(28, 0, true);
+    header.set(name, 30);
+
+    this.entries.push(entry);
+    await this.write(header);
+    await this.write(data);
+  }
+
+  private async writeCentralDirectory(comment: Uint8Array): Promise<void> {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      const record = new Uint8Array(46 + entry.name.length);
+      const view = new DataView(record.buffer);
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, 20, true);
+      view.setUint16(6, 20, true);
+      view.setUint16(8, UTF8_FLAG, true);
+      view.setUint16(10, 0, true);
+      view.setUint16(12, this.time, true);
+      view.setUint16(14, this.date, true);
+      view.setUint32(16, entry.crc, true);
+      view.setUint32(20, entry.size, true);
+      view.setUint32(24, entry.size, true);
+      view.setUint16(28, entry.name.length, true);
+      view.setUint32(42, entry.offset, true);
+      record.set(entry.name, 46);
+      await this.write(record);
+    }
+
+    const end = new Uint8Array(22 + comment.length);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, this.entries.length, true);
+    view.setUint16(10, this.entries.length, true);
+    view.setUint32(12, this.offset - start, true);
+    view.setUint32(16, start, true);
+    view.setUint16(20, comment.length, true);
+    end.set(comment, 22);
+    await this.write(end);
+  }
+
+  private async write(chunk: Uint8Array): Promise<void> {
+    if (this.offset + chunk.length > MAX_SIZE) {
+      throw new Error('Zip archive too large');
+    }
+    this.offset += chunk.length;
+    await this.writer.write(chunk);
+  }
+}
@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import { AssetStore, AssetStoreOptions } from '../src/assets';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+type Route = (init: RequestInit | undefined, attempt: number) => Response | Promise<Response>;
+
+// 按地址返回预设响应的 fetch，记录每个地址的请求次数
+function stubFetch(routes: Record<string, Route>) {
+  const calls = new Map<string, number>();
+  const fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    const attempt = calls.get(url) || 0;
+    calls.set(url, attempt + 1);
+    const route = routes[url];
+    return route ? route(init, attempt) : new Response('not found', { status: 404 });
+  }) as typeof globalThis.fetch;
+  return { fetch, calls };
+}
+
+function createStore(routes: Record<string, Route>, options: AssetStoreOptions = {}) {
+  const files = new Map<string, string | Uint8Array>();
+  const { fetch, calls } = stubFetch(routes);
+  const store = new AssetStore({ file: (path, content) => files.set(path, content) }, {
+    retryDelay: 1,
+    timeout: 1000,
+    fetch,
+    ...options,
+  });
+  return { store, files, calls };
+}
+
+const image = (url: string) => `<p><img src="${url}"></p>`;
+const file = (url: string, name: string) =>
+  `<card type="block" name="file" value="data:${encodeURIComponent(JSON.stringify({ src: url, name }))}"></card>`;
+
+describe('AssetStore', () => {
+  it('downloads an asset and resolves it to a relative path', async () => {
+    const { store, files } = createStore({ 'https://cdn.test/a.png': () => new Response(PNG) });
+
+    const result = await store.localize(image('https://cdn.test/a.png'), 'guide');
+
+    expect(result.failures).toEqual([]);
+    expect(result.resolveAsset?.('https://cdn.test/a.png')).toBe('./attachments/a.png');
+    expect([...files.keys()]).toEqual(['guide/attachments/a.png']);
+  });
+
+  it('stores identical images once across documents', async () => {
+    const { store, files, calls } = createStore({
+      'https://cdn.test/a.png': () => new Response(PNG),
+      'https://cdn.test/b.png': () => new Response(PNG),
+    });
+
+    const first = await store.localize(image('https://cdn.test/a.png'), 'one');
+    const second = await store.localize(image('https://cdn.test/b.png') + image('https://cdn.test/a.png'), 'two/sub');
+
+    expect([...files.keys()]).toEqual(['one/attachments/a.png']);
+    expect(first.resolveAsset?.('https://cdn.test/a.png')).toBe('./attachments/a.png');
+    expect(second.resolveAsset?.('https://cdn.test/b.png')).toBe('../../one/attachments/a.png');
+    // 同一地址只下载一次
+    expect(calls.get('https://cdn.test/a.png')).toBe(1);
+  });
+
+  it('keeps the name and extension of identical files', async () => {
+    const { store, files } = createStore({
+      'https://cdn.test/a.png': () => new Response(PNG),
+      'https://cdn.test/report': () => new Response(PNG),
+      'https://cdn.test/copy': () => new Response(PNG),
+    });
+
+    const result = await store.localize(
+      image('https://cdn.test/a.png') + file('https://cdn.test/report', 'report.pdf') + file('https://cdn.test/copy', 'report.pdf'),
+      ''
+    );
+
+    expect([...files.keys()].sort()).toEqual(['attachments/a.png', 'attachments/report.pdf']);
+    expect(result.resolveAsset?.('https://cdn.test/report')).toBe('./attachments/report.pdf');
+    expect(result.resolveAsset?.('https://cdn.test/copy')).toBe('./attachments/report.pdf');
+  });
+
+  it('retries 503 responses', async () => {
+    const { store, files, calls } = createStore({
+      'https://cdn.test/a.png': (init, attempt) => new Response(PNG, { status: attempt < 2 ? 503 : 200 }),
+    });
+
+    const result = await store.localize(image('https://cdn.test/a.png'), '');
+
+    expect(calls.get('https://cdn.test/a.png')).toBe(3);
+    expect(result.failures).toEqual([]);
+    expect(files.has('attachments/a.png')).toBe(true);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const { store, calls } = createStore(
+      { 'https://cdn.test/a.png': () => new Response('busy', { status: 503 }) },
+      { retries: 1 }
+    );
+
+    const result = await store.localize(image('https://cdn.test/a.png'), '');
+
+    expect(calls.get('https://cdn.test/a.png')).toBe(2);
+    expect(result.failures).toEqual([{ url: 'https://cdn.test/a.png', kind: 'image', reason: 'HTTP 503' }]);
+    expect(result.resolveAsset?.('https://cdn.test/a.png')).toBeNull();
+  });
+
+  it('does not retry 404 responses', async () => {
+    const { store, files, calls } = createStore({});
+
+    const result = await store.localize(image('https://cdn.test/missing.png'), '');
+
+    expect(calls.get('https://cdn.test/missing.png')).toBe(1);
+    expect(result.failures).toEqual([{ url: 'https://cdn.test/missing.png', kind: 'image', reason: 'HTTP 404' }]);
+    expect(files.size).toBe(0);
+  });
+
+  it('skips assets over the size limit', async () => {
+    const { store, files } = createStore({
+      // Content-Length 超过上限时不读取内容
+      'https://cdn.test/declared.png': () => new Response(PNG, { headers: { 'Content-Length': '100' } }),
+      // 没有 Content-Length 时按实际大小判断
+      'https://cdn.test/chunked.png': () => new Response(new Blob([PNG]).stream()),
+    }, { maxSize: 8 });
+
+    const result = await store.localize(image('https://cdn.test/declared.png') + image('https://cdn.test/chunked.png'), '');
+
+    expect(result.failures.map(failure => failure.reason)).toEqual([
+      'size 100 exceeds limit 8',
+      'size exceeds limit 8',
+    ]);
+    expect(files.size).toBe(0);
+  });
+
+  it('stops reading a body once it passes the size limit', async () => {
+    let pulled = 0;
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new Uint8Array(4));
+        pulled++;
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const { store } = createStore({ 'https://cdn.test/endless.png': () => new Response(body) }, { maxSize: 10 });
+
+    const result = await store.localize(image('https://cdn.test/endless.png'), '');
+
+    expect(result.failures.map(failure => failure.reason)).toEqual(['size exceeds limit 10']);
+    expect(cancelled).toBe(true);
+    expect(pulled).toBeLessThan(10);
+  });
+
+  it('cancels the body of failed responses', async () => {
+    const cancelled: number[] = [];
+    const body = (status: number) => new ReadableStream<Uint8Array>({
+      cancel() {
+        cancelled.push(status);
+      },
+    });
+    const { store } = createStore({
+      'https://cdn.test/a.png': (init, attempt) => new Response(body(attempt === 0 ? 503 : 404), { status: attempt === 0 ? 503 : 404 }),
+    });
+
+    await store.localize(image('https://cdn.test/a.png'), '');
+
+    expect(cancelled).toEqual([503, 404]);
+  });
+
+  it('times out slow responses and retries them', async () => {
+    const { store, calls } = createStore({
+      'https://cdn.test/slow.png': init => new Promise<Response>((resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }),
+    }, { timeout: 20, retries: 1 });
+
+    const result = await store.localize(image('https://cdn.test/slow.png'), '');
+
+    expect(calls.get('https://cdn.test/slow.png')).toBe(2);
+    expect(result.failures).toEqual([{ url: 'https://cdn.test/slow.png', kind: 'image', reason: 'timed out after 20ms' }]);
+  });
+
+  it('reports each asset through onAsset', async () => {
+    const events: Array<[string, string | undefined]> = [];
+    const { store } = createStore(
+      { 'https://cdn.test/a.png': () => new Response(PNG) },
+      { onAsset: (asset, failure) => events.push([asset.url, failure?.reason]) }
+    );
+
+    await store.localize(image('https://cdn.test/a.png') + image('https://cdn.test/b.png'), '');
+
+    // 下载并发进行，完成顺序不固定
+    expect(events.sort()).toEqual([
+      ['https://cdn.test/a.png', undefined],
+      ['https://cdn.test/b.png', 'HTTP 404'],
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { FileNamer, sanitizeFileName } from '../src/file-naming';
+
+describe('sanitizeFileName', () => {
+  it('replaces characters that are invalid on common file systems', () => {
+    expect(sanitizeFileName('a/b\\c:d*e?f"g<h>i|j')).toBe('a_b_c_d_e_f_g_h_i_j');
+    expect(sanitizeFileName('tab\there\u0000')).toBe('tab_here_');
+  });
+
+  it('avoids Windows reserved names and trailing dots', () => {
+    expect(sanitizeFileName('CON')).toBe('CON_');
+    expect(sanitizeFileName('nul.txt')).toBe('nul.txt_');
+    expect(sanitizeFileName('com1')).toBe('com1_');
+    expect(sanitizeFileName('console')).toBe('console');
+    expect(sanitizeFileName('notes...')).toBe('notes');
+    expect(sanitizeFileName('...')).toBe('untitled');
+    expect(sanitizeFileName('')).toBe('untitled');
+  });
+
+  it('truncates long names without splitting characters', () => {
+    const name = sanitizeFileName('中'.repeat(100));
+    expect(new TextEncoder().encode(name).length).toBeLessThanOrEqual(200);
+    expect(name).toBe('中'.repeat(66));
+  });
+});
+
+describe('FileNamer', () => {
+  it('numbers duplicate names per directory, ignoring case', () => {
+    const namer = new FileNamer();
+
+    expect(namer.name({ title: 'Intro' })).toBe('Intro');
+    expect(namer.name({ title: 'intro' })).toBe('intro-2');
+    expect(namer.name({ title: 'Intro' })).toBe('Intro-3');
+    expect(namer.name({ title: 'Intro' }, 'guide')).toBe('Intro');
+  });
+
+  it('does not reuse reserved names', () => {
+    const namer = new FileNamer('title', ['REPORT']);
+
+    expect(namer.name({ title: 'report' })).toBe('report-2');
+    expect(namer.name({ title: 'report' }, 'sub')).toBe('report');
+  });
+
+  it('names files by slug, id or pinyin', () => {
+    const source = { title: '快速 开始', slug: 'quick-start', id: 42 };
+
+    expect(new FileNamer('slug').name(source)).toBe('quick-start');
+    expect(new FileNamer('id').name(source)).toBe('42_快速_开始');
+    expect(new FileNamer('pinyin').name(source)).toBe('kuai-su-kai-shi');
+    // 缺少 slug 或 id 时退回标题
+    expect(new FileNamer('slug').name({ title: 'No slug' })).toBe('No_slug');
+    expect(new FileNamer('id').name({ title: 'No id' })).toBe('No_id');
+  });
+});
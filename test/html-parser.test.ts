@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Node, parseHtml } from '../src/html-parser';
+
+// 把节点树写成 tag(child,child) 的紧凑形式，文本以引号表示
+function shape(node: Node): string {
+  if (node.type === 'text') return JSON.stringify(node.content);
+  const children = (node.children || []).map(shape).join(',');
+  return node.type === 'root' ? children : `${node.tagName}(${children})`;
+}
+
+describe('parseHtml', () => {
+  it('closes list items, cells and paragraphs implicitly', () => {
+    expect(shape(parseHtml('<ul><li>a<li>b</ul>'))).toBe('ul(li("a"),li("b"))');
+    expect(shape(parseHtml('<table><tr><td>1<td>2<tr><td>3</table>'))).toBe('table(tr(td("1"),td("2")),tr(td("3")))');
+    expect(shape(parseHtml('<p>a<div>b</div>'))).toBe('p("a"),div("b")');
+    expect(shape(parseHtml('<dl><dt>t<dd>d<dt>u</dl>'))).toBe('dl(dt("t"),dd("d"),dt("u"))');
+  });
+
+  it('keeps nested lists and tables inside their own scope', () => {
+    expect(shape(parseHtml('<ul><li>a<ul><li>b</ul><li>c</ul>'))).toBe('ul(li("a",ul(li("b"))),li("c"))');
+    expect(shape(parseHtml('<table><tr><td><table><tr><td>x</table><td>y</table>')))
+      .toBe('table(tr(td(table(tr(td("x")))),td("y")))');
+    // 单元格是 <p> 的作用域边界，单元格内的块级元素不会关闭单元格外的段落
+    expect(shape(parseHtml('<p>a<table><tr><td><p>b<div>c</div></table>'))).toBe('p("a"),table(tr(td(p("b"),div("c"))))');
+  });
+
+  it('closes an open heading when another heading starts', () => {
+    expect(shape(parseHtml('<h1>a<h2>b</h2>'))).toBe('h1("a"),h2("b")');
+  });
+
+  it('ignores stray end tags and treats </br> as <br>', () => {
+    expect(shape(parseHtml('a</span>b</br>c'))).toBe('"ab",br(),"c"');
+  });
+
+  it('reads raw text elements without parsing tags', () => {
+    expect(shape(parseHtml('<script>if (a < b && c) "</div>";</script><p>x</p>')))
+      .toBe('script("if (a < b && c) \\"</div>\\";"),p("x")');
+    expect(shape(parseHtml('<textarea><b>bold</b></TEXTAREA>after'))).toBe('textarea("<b>bold</b>"),"after"');
+    // 缺少结束标签时内容延续到末尾
+    expect(shape(parseHtml('<style>a { color: red }'))).toBe('style("a { color: red }")');
+  });
+
+  it('parses quoted, unquoted and boolean attributes', () => {
+    const [node] = parseHtml('<input type=checkbox checked value=\'a "b"\' data-x="1 &amp; 2" TYPE="other">').children!;
+    expect(node.attributes).toEqual({ type: 'checkbox', checked: '', value: 'a "b"', 'data-x': '1 & 2' });
+  });
+
+  it('keeps whitespace in preformatted elements and drops blank text between blocks', () => {
+    expect(shape(parseHtml('<pre>\n  a\n</pre>\n<p>b</p>'))).toBe('pre("\\n  a\\n"),p("b")');
+    expect(shape(parseHtml('<b>a</b> <i>b</i>'))).toBe('b("a")," ",i("b")');
+  });
+
+  it('escapes CDATA content and skips comments', () => {
+    expect(shape(parseHtml('<!-- <p>x</p> --><![CDATA[a & <b>]]>'))).toBe('"a &amp; <b>"');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { ConvertOptions, htmlToMarkdown } from '../src/html-to-md';
+import { Dialect } from '../src/dialects';
+
+// 合并多余的空行，便于比较
+function md(html: string, options: ConvertOptions = {}): string {
+  return htmlToMarkdown(html, options).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+const card = (name: string, type: 'block' | 'inline', value: unknown) =>
+  `<card type="${type}" name="${name}" value="data:${encodeURIComponent(JSON.stringify(value))}"></card>`;
+
+describe('tables', () => {
+  const merged = '<table><tr><th colspan="2">AB</th><th>C</th></tr>'
+    + '<tr><td rowspan="2">x|y</td><td>*1*</td><td>2<br>3</td></tr>'
+    + '<tr><td>4</td><td rowspan="5">5</td></tr></table>';
+
+  it('expands merged cells into a GFM grid and escapes cell content', () => {
+    expect(md(merged)).toBe([
+      '| AB |  | C |',
+      '| --- | --- | --- |',
+      '| x\\|y | \\*1\\* | 2<br />3 |',
+      '|  | 4 | 5 |',
+    ].join('\n'));
+  });
+
+  it('keeps merged cells as an HTML table when asked', () => {
+    expect(md('<table><tr><td colspan="2" class="x">a</td></tr></table>', { mergedCells: 'html' })).toBe([
+      '<table>',
+      '  <tr>',
+      '    <td colspan="2">a</td>',
+      '  </tr>',
+      '</table>',
+    ].join('\n'));
+  });
+
+  it('joins paragraphs in a cell with line breaks', () => {
+    expect(md('<table><tr><td><p>a</p><p>b</p></td></tr></table>')).toBe('| a<br />b |\n| --- |');
+  });
+
+  it('falls back to an HTML table for block content in cells', () => {
+    const table = (cell: string) => `<table><tr><th>H</th></tr><tr><td>${cell}</td></tr></table>`;
+    const cell = (html: string, options?: ConvertOptions) => md(html, options).split('\n')[5].trim();
+
+    expect(cell(table('<ul><li>a</li><li>b|c</li></ul>'))).toBe('<td><ul><li>a</li><li>b|c</li></ul></td>');
+    expect(cell(table('<h2>Title</h2>'))).toBe('<td><h2>Title</h2></td>');
+    expect(cell(table('<table><tr><td>1</td></tr></table>'))).toBe('<td><table><tr><td>1</td></tr></table></td>');
+    expect(cell(table('<pre>a\n  b</pre>'))).toBe('<td><pre>a&#10;  b</pre></td>');
+    expect(cell(table(card('codeblock', 'block', { mode: 'js', code: 'if (a) {\n  b();\n}' }))))
+      .toBe('<td><pre><code class="language-javascript">if (a) {&#10;  b();&#10;}</code></pre></td>');
+    expect(cell(table(card('codeblock', 'block', { mode: 'js', code: 'if (a) {}' })), { dialect: 'docusaurus' }))
+      .toBe('<td><pre><code className="language-javascript">if (a) &#123;&#125;</code></pre></td>');
+  });
+
+  it('keeps inline images in GFM cells', () => {
+    expect(md(`<table><tr><td>${card('image', 'block', { src: 'https://x/a.png', name: 'a' })}</td></tr></table>`))
+      .toBe('| ![a](https://x/a.png) |\n| --- |');
+  });
+});
+
+describe('escaping', () => {
+  it('escapes block syntax only at the start of a line', () => {
+    expect(md('<p>1. not a list</p><p># not a heading</p><p>text 1. and # stay</p>')).toBe(
+      '1\\. not a list\n\n\\# not a heading\n\ntext 1. and # stay'
+    );
+  });
+
+  it('treats text after a line break as a line start', () => {
+    expect(md('<p>+ plus<br>- minus<br>&gt; quote<br><b>bold<br></b>## heading</p>')).toBe(
+      '\\+ plus\n\\- minus\n\\> quote\n**bold\n**\\## heading'
+    );
+  });
+
+  it('escapes inline syntax everywhere', () => {
+    expect(md('<p>a *b* _c_ [d] `e` \\ f</p>')).toBe('a \\*b\\* \\_c\\_ \\[d\\] \\`e\\` \\\\ f');
+    expect(md('<p><strong># a</strong> b</p>')).toBe('**\\# a** b');
+  });
+
+  it('escapes braces for MDX dialects', () => {
+    expect(md('<p>{a}</p>', { dialect: 'docusaurus' })).toBe('\\{a\\}');
+    expect(md('<p>{a}</p>')).toBe('{a}');
+  });
+
+  it('keeps text in code as is', () => {
+    expect(md('<p><code>*a* | b</code></p>')).toBe('`*a* | b`');
+    expect(md('<pre><code>1. *a*</code></pre>')).toBe('```\n1. *a*\n```');
+  });
+});
+
+describe('dialects', () => {
+  const html = '<p><del>del</del> <sup>sup</sup> <sub>sub</sub> <mark>mark</mark> '
+    + `${card('math', 'inline', { code: 'x^2' })}</p>`
+    + card('codeblock', 'block', { mode: 'js', code: 'a()', title: 'main.js' })
+    + '<table><tr><td>a</td></tr></table>'
+    + '<blockquote class="lake-alert lake-alert-tips"><p>tip</p></blockquote>';
+
+  const expected: Record<Dialect, string> = {
+    commonmark: [
+      '<del>del</del> <sup>sup</sup> <sub>sub</sub> <mark>mark</mark> $x^2$',
+      '```javascript\n// main.js\na()\n```',
+      '<table>\n  <tr>\n    <td>a</td>\n  </tr>\n</table>',
+      '> **Tip**\n>\n> tip',
+    ].join('\n\n'),
+    gfm: [
+      '~~del~~ <sup>sup</sup> <sub>sub</sub> <mark>mark</mark> $x^2$',
+      '```javascript\n// main.js\na()\n```',
+      '| a |\n| --- |',
+      '> [!TIP]\n> tip',
+    ].join('\n\n'),
+    obsidian: [
+      '~~del~~ <sup>sup</sup> <sub>sub</sub> ==mark== $x^2$',
+      '```javascript\n// main.js\na()\n```',
+      '| a |\n| --- |',
+      '> [!tip]\n> tip',
+    ].join('\n\n'),
+    hugo: [
+      '~~del~~ ^sup^ ~sub~ ==mark== \\(x^2\\)',
+      '```javascript\n// main.js\na()\n```',
+      '| a |\n| --- |',
+      '> [!TIP]\n> tip',
+    ].join('\n\n'),
+    docusaurus: [
+      '~~del~~ <sup>sup</sup> <sub>sub</sub> <mark>mark</mark> $x^2$',
+      '```javascript title="main.js"\na()\n```',
+      '| a |\n| --- |',
+      ':::tip\n\ntip\n\n:::',
+    ].join('\n\n'),
+  };
+
+  for (const [dialect, markdown] of Object.entries(expected)) {
+    it(`writes ${dialect} syntax`, () => {
+      expect(md(html, { dialect: dialect as Dialect })).toBe(markdown);
+    });
+  }
+});
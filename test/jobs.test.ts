@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Miniflare } from 'miniflare';
+import worker, { Env } from '../src/index';
+import { Job, JobMessage, JobStore, JOB_STALL_TIMEOUT } from '../src/jobs';
+
+const HOUR = 60 * 60 * 1000;
+
+function tarEntry(name: string, content: string): Uint8Array[] {
+  const data = new TextEncoder().encode(content);
+  const header = new Uint8Array(512);
+  const field = (offset: number, value: string) => header.set(new TextEncoder().encode(value), offset);
+  field(0, name);
+  field(100, '0000644\0');
+  field(124, data.length.toString(8).padStart(11, '0') + '\0');
+  field(148, '        ');
+  field(156, '0');
+  field(257, 'ustar\x0000');
+  field(148, header.reduce((sum, byte) => sum + byte, 0).toString(8).padStart(6, '0') + '\0 ');
+  const body = new Uint8Array(Math.ceil(data.length / 512) * 512);
+  body.set(data);
+  return [header, body];
+}
+
+// 只有一篇文档的 lakebook
+async function lakebook(): Promise<Uint8Array> {
+  const meta = { book: { name: 'Book', namespace: 'user/book', tocYml: '- type: DOC\n  title: Intro\n  url: intro\n  level: 0\n' } };
+  const tar = [
+    ...tarEntry('repo/$meta.json', JSON.stringify({ meta: JSON.stringify(meta) })),
+    ...tarEntry('repo/intro.json', JSON.stringify({ doc: { title: 'Intro', body: '<p>Hello</p>' } })),
+    new Uint8Array(1024),
+  ];
+  const gzipped = new Blob(tar).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(gzipped).arrayBuffer());
+}
+
+function batch(body: JobMessage, attempts = 1): MessageBatch<JobMessage> {
+  const message = { id: '1', timestamp: new Date(), body, attempts, ack() {}, retry() {} };
+  return { queue: 'lakebook-jobs', messages: [message], ackAll() {}, retryAll() {} } as unknown as MessageBatch<JobMessage>;
+}
+
+const ctx = { waitUntil() {}, passThroughOnException() {} } as unknown as ExecutionContext;
+
+let mf: Miniflare;
+let bucket: R2Bucket;
+
+beforeAll(async () => {
+  mf = new Miniflare({ modules: true, script: 'export default {}', r2Buckets: ['LAKEBOOK_BUCKET'] });
+  bucket = await mf.getR2Bucket('LAKEBOOK_BUCKET') as unknown as R2Bucket;
+});
+
+afterAll(async () => {
+  await mf.dispose();
+});
+
+describe('JobStore', () => {
+  it('stores the upload and creates a queued job', async () => {
+    const store = new JobStore(bucket, HOUR);
+    const job = await store.create(new Blob(['lakebook data']).stream(), { dialect: 'obsidian' });
+
+    expect(job).toMatchObject({ status: 'queued', params: { dialect: 'obsidian' }, progress: { total: 0, done: 0 } });
+    expect(await store.get(job.id)).toEqual(job);
+    expect(await new Response(await store.input(job.id)).text()).toBe('lakebook data');
+  });
+
+  it('streams the result into R2', async () => {
+    const store = new JobStore(bucket, HOUR);
+    const job = await store.create(new Blob(['x']).stream(), {});
+
+    await new Blob(['first ', 'second']).stream().pipeTo(store.resultWriter(job.id));
+
+    const result = await store.result(job.id);
+    expect(result?.httpMetadata?.contentType).toBe('application/zip');
+    expect(await result?.text()).toBe('first second');
+  });
+
+  it('marks stalled running jobs as failed', async () => {
+    const store = new JobStore(bucket, HOUR);
+    const job = await store.create(new Blob(['x']).stream(), {});
+    const stalled: Job = { ...job, status: 'running', updatedAt: new Date(Date.now() - JOB_STALL_TIMEOUT - 1000).toISOString() };
+    await bucket.put(`jobs/${job.id}/job.json`, JSON.stringify(stalled));
+
+    expect(await store.get(job.id)).toMatchObject({ status: 'failed', error: expect.stringContaining('stalled') });
+    expect((await store.get(job.id))?.status).toBe('failed');
+  });
+
+  it('drops expired jobs', async () => {
+    const expired = new JobStore(bucket, 0);
+    const job = await expired.create(new Blob(['x']).stream(), {});
+
+    expect(await expired.get(job.id)).toBeNull();
+    expect(await bucket.head(`jobs/${job.id}/input.lakebook`)).toBeNull();
+
+    await new JobStore(bucket, HOUR).create(new Blob(['x']).stream(), {});
+    expect(await expired.deleteExpired()).toBeGreaterThan(0);
+    expect((await bucket.list({ prefix: 'jobs/' })).objects).toEqual([]);
+  });
+});
+
+describe('job API', () => {
+  function env(queue?: JobMessage[]): Env {
+    return {
+      DOWNLOAD_IMAGES: 'false',
+      LAKEBOOK_BUCKET: bucket,
+      JOB_QUEUE: queue && { send: async (body: JobMessage) => { queue.push(body); } } as unknown as Queue<JobMessage>,
+    };
+  }
+
+  it('runs queued jobs in the queue consumer', async () => {
+    const messages: JobMessage[] = [];
+    const response = await worker.fetch(new Request('http://localhost/api/jobs?dialect=obsidian', {
+      method: 'POST',
+      body: await lakebook(),
+      headers: { 'Content-Type': 'application/octet-stream' },
+    }), env(messages), ctx);
+    const job = await response.json() as Job & { statusUrl: string; resultUrl: string };
+
+    expect(response.status).toBe(202);
+    expect(messages).toEqual([{ id: job.id }]);
+    expect((await worker.fetch(new Request(`http://localhost${job.resultUrl}`), env(messages), ctx)).status).toBe(409);
+
+    await worker.queue(batch(messages[0]), env(messages));
+
+    const status = await (await worker.fetch(new Request(`http://localhost${job.statusUrl}`), env(messages), ctx)).json();
+    expect(status).toMatchObject({ status: 'completed', progress: { total: 1, done: 1 }, summary: { converted: 1 } });
+    const result = await worker.fetch(new Request(`http://localhost${job.resultUrl}`), env(messages), ctx);
+    expect(result.status).toBe(200);
+    expect(result.headers.get('Content-Type')).toBe('application/zip');
+    expect(await bucket.head(`jobs/${job.id}/input.lakebook`)).toBeNull();
+  });
+
+  it('fails jobs that were interrupted and redelivered', async () => {
+    const store = new JobStore(bucket, HOUR);
+    const job = await store.update(await store.create(new Blob(['x']).stream(), {}), { status: 'running' });
+
+    await worker.queue(batch({ id: job.id }, 2), env([]));
+
+    expect(await store.get(job.id)).toMatchObject({ status: 'failed', error: expect.stringContaining('interrupted') });
+  });
+
+  it('records failed conversions', async () => {
+    const store = new JobStore(bucket, HOUR);
+    const job = await store.create(new Blob(['not a lakebook']).stream(), {});
+
+    await worker.queue(batch({ id: job.id }), env([]));
+
+    expect((await store.get(job.id))?.status).toBe('failed');
+  });
+
+  it('is unavailable without a queue', async () => {
+    const response = await worker.fetch(new Request('http://localhost/api/jobs/x'), env(), ctx);
+    expect(response.status).toBe(501);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToMarkdown } from '../src/html-to-md';
+import { BookLinker, parseYuqueDocLink, relativePath } from '../src/links';
+
+describe('parseYuqueDocLink', () => {
+  it('parses absolute, custom-domain and path-only links', () => {
+    expect(parseYuqueDocLink('https://www.yuque.com/team/book/intro#a1')).toEqual({ namespace: 'team', book: 'book', slug: 'intro', anchor: 'a1' });
+    expect(parseYuqueDocLink('https://space.yuque.com/team/book/intro?view=doc')).toEqual({ namespace: 'team', book: 'book', slug: 'intro', anchor: undefined });
+    expect(parseYuqueDocLink('/team/book/%E4%B8%AD')).toMatchObject({ slug: '中' });
+  });
+
+  it('rejects other links', () => {
+    expect(parseYuqueDocLink('https://example.com/team/book/intro')).toBeNull();
+    expect(parseYuqueDocLink('https://www.yuque.com/team/book')).toBeNull();
+    expect(parseYuqueDocLink('./local.md')).toBeNull();
+  });
+});
+
+describe('relativePath', () => {
+  it('walks up to the common directory', () => {
+    expect(relativePath('', 'a/b')).toBe('./a/b');
+    expect(relativePath('a', 'a/b')).toBe('./b');
+    expect(relativePath('a/x', 'a/b')).toBe('../b');
+    expect(relativePath('x/y', 'b')).toBe('../../b');
+  });
+});
+
+describe('BookLinker', () => {
+  const link = (href: string, text: string) => `<p><a href="${href}">${text}</a></p>`;
+
+  // 转换 from 文档，登记其余文档后改写链接
+  function convert(linker: BookLinker, html: string, dialect: 'gfm' | 'obsidian' = 'gfm') {
+    const from = linker.register('from', 'guide/from');
+    const markdown = htmlToMarkdown(html, { dialect, ...from });
+    return (targets: Record<string, string>, headings: Record<string, Record<string, string>> = {}, pending?: Map<string, string>) => {
+      for (const [slug, path] of Object.entries(targets)) {
+        const { onHeading } = linker.register(slug, path);
+        for (const [id, text] of Object.entries(headings[slug] || {})) onHeading?.(id, text);
+      }
+      return linker.resolve(markdown, 'guide/from', { dialect }, pending).trim();
+    };
+  }
+
+  it('rewrites links to documents converted later, including heading anchors', () => {
+    const resolve = convert(new BookLinker('team/book'), link('https://www.yuque.com/team/book/setup#h1', 'Setup'));
+
+    expect(resolve({ setup: 'guide/install/setup' }, { setup: { h1: 'First Step' } })).toBe('[Setup](./install/setup.md#first-step)');
+  });
+
+  it('keeps links to other books and missing documents', () => {
+    const resolve = convert(
+      new BookLinker('team/book'),
+      link('https://www.yuque.com/team/other/intro', 'Other') + link('https://www.yuque.com/team/book/missing', 'Missing'),
+    );
+
+    expect(resolve({ intro: 'intro' }).split(/\n+/)).toEqual([
+      '[Other](https://www.yuque.com/team/other/intro)',
+      '[Missing](https://www.yuque.com/team/book/missing)',
+    ]);
+  });
+
+  it('uses the planned path of pending documents and the raw anchor', () => {
+    const linker = new BookLinker('team/book');
+    const resolve = convert(linker, link('/team/book/later#abc', 'Later'));
+
+    expect(resolve({}, {}, new Map([['later', 'later']]))).toBe('[Later](../later.md#abc)');
+  });
+
+  it('writes wikilinks for Obsidian', () => {
+    const resolve = convert(new BookLinker(), link('https://www.yuque.com/a/b/setup#h1', 'Setup'), 'obsidian');
+
+    expect(resolve({ setup: 'guide/setup' }, { setup: { h1: 'Install' } })).toBe('[[guide/setup#Install|Setup]]');
+  });
+
+  it('reports whether links wait for pending documents', () => {
+    const linker = new BookLinker();
+    const from = linker.register('from', 'from');
+    const markdown = htmlToMarkdown(link('/a/b/next', 'Next'), from);
+
+    expect(linker.isResolvable(markdown, new Map([['next', 'next']]))).toBe(false);
+    expect(linker.isResolvable(markdown, new Map())).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { MultipartError, readFormUpload } from '../src/multipart';
+
+// 把表单编码为请求，请求体按 chunkSize 切成小块，模拟分批到达的上传
+async function formRequest(form: FormData, chunkSize: number): Promise<Request> {
+  const encoded = new Response(form);
+  const bytes = new Uint8Array(await encoded.arrayBuffer());
+  let offset = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset += chunkSize));
+    },
+  });
+  return new Request('http://localhost/', {
+    method: 'POST',
+    body,
+    headers: { 'Content-Type': encoded.headers.get('Content-Type')! },
+    duplex: 'half',
+  } as RequestInit);
+}
+
+const FILE = new Uint8Array(5000).map((_, i) => (i * 31) % 256);
+
+describe('readFormUpload', () => {
+  for (const chunkSize of [1, 7, 64 * 1024]) {
+    it(`streams the file and reads earlier fields (${chunkSize}-byte chunks)`, async () => {
+      const form = new FormData();
+      form.append('dialect', 'obsidian');
+      form.append('include', '中文,b');
+      form.append('lakebook', new File([FILE], 'book.lakebook'));
+
+      const { fields, file } = await readFormUpload(await formRequest(form, chunkSize), 'lakebook');
+
+      expect(Object.fromEntries(fields)).toEqual({ dialect: 'obsidian', include: '中文,b' });
+      expect(new Uint8Array(await new Response(file).arrayBuffer())).toEqual(FILE);
+    });
+  }
+
+  it('returns no file when none was selected', async () => {
+    const form = new FormData();
+    form.append('lakebook', new File([], ''));
+    form.append('yuqueUrl', 'https://www.yuque.com/a/b');
+
+    const { fields, file } = await readFormUpload(await formRequest(form, 16), 'lakebook');
+
+    expect(file).toBeNull();
+    expect(fields.get('yuqueUrl')).toBe('https://www.yuque.com/a/b');
+  });
+
+  it('reads url-encoded forms', async () => {
+    const request = new Request('http://localhost/', { method: 'POST', body: new URLSearchParams({ yuqueUrl: 'x' }) });
+
+    const { fields, file } = await readFormUpload(request, 'lakebook');
+
+    expect(fields.get('yuqueUrl')).toBe('x');
+    expect(file).toBeNull();
+  });
+
+  it('rejects truncated bodies', async () => {
+    const form = new FormData();
+    form.append('dialect', 'gfm');
+    const bytes = new Uint8Array(await new Response(form).arrayBuffer());
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      body: bytes.slice(0, bytes.length - 20),
+      headers: { 'Content-Type': new Response(form).headers.get('Content-Type')! },
+    });
+
+    await expect(readFormUpload(request, 'lakebook')).rejects.toThrow(MultipartError);
+  });
+
+  it('rejects other content types', async () => {
+    const request = new Request('http://localhost/', { method: 'POST', body: 'x', headers: { 'Content-Type': 'text/plain' } });
+
+    await expect(readFormUpload(request, 'lakebook')).rejects.toThrow(MultipartError);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { deflate } from 'pako';
+import { parseSheetBody, sheetCsvNames, sheetPreviewHtml, sheetToCsv, Sheet } from '../src/sheets';
+
+const texts = (sheet: Sheet) => sheet.rows.map(row => row.map(cell => cell.text));
+
+function binaryString(data: Uint8Array): string {
+  return Array.from(data, byte => String.fromCharCode(byte)).join('');
+}
+
+describe('parseSheetBody', () => {
+  const sheets = [{ name: 'Data', data: { 0: { 0: 'a', 1: { v: 1 } }, 1: { 1: { m: '1,000' } } } }];
+
+  it('decodes plain, deflated and base64 sheet fields', () => {
+    const deflated = binaryString(deflate(JSON.stringify(sheets)));
+
+    for (const sheet of [sheets, JSON.stringify(sheets), deflated, btoa(deflated)]) {
+      const [parsed] = parseSheetBody(JSON.stringify({ sheet }));
+      expect(parsed.name).toBe('Data');
+      expect(texts(parsed)).toEqual([['a', '1'], ['', '1,000']]);
+    }
+    expect(() => parseSheetBody(JSON.stringify({ sheet: 'not a sheet' }))).toThrow('Unsupported sheet encoding');
+  });
+
+  it('formats numbers by the cell format', () => {
+    const cell = (v: unknown, fmt?: string) => ({ v, fmt });
+    const [sheet] = parseSheetBody(JSON.stringify({ sheet: [{ data: [[
+      cell(0.1 + 0.2),
+      cell(0.256, '0.0%'),
+      cell(1234567.891, '#,##0.00'),
+      cell(42, '0'),
+      { v: 3.5, s: { fmt: '0.00' } },
+      cell(true),
+      [{ text: 'rich ' }, { text: 'text' }],
+    ]] }] }));
+
+    expect(texts(sheet)).toEqual([['0.3', '25.6%', '1,234,567.89', '42', '3.50', 'TRUE', 'rich text']]);
+  });
+
+  it('applies merges and trims empty trailing rows and columns', () => {
+    const [sheet] = parseSheetBody(JSON.stringify({ sheet: [{
+      data: [['a', 'b', 'c', ''], ['d', 'e', 'f', ''], ['', '', '', '']],
+      mergeCells: { m1: { row: 0, col: 0, rowCount: 2, colCount: 2 }, m2: { r: 0, c: 2, rs: 5, cs: 1 } },
+    }] }));
+
+    expect(sheet.rows.map(row => row.map(({ rowspan, colspan, covered }) => [rowspan, colspan, covered]))).toEqual([
+      [[2, 2, false], [1, 1, true], [2, 1, false]],
+      [[1, 1, true], [1, 1, true], [1, 1, true]],
+    ]);
+    expect(sheetToCsv(sheet)).toBe('\ufeffa,,c\r\n,,\r\n');
+  });
+
+  it('reads data tables by column id', () => {
+    const [sheet] = parseSheetBody(JSON.stringify({ table: {
+      name: 'Tasks',
+      columns: [{ id: 'c1', name: 'Title' }, { id: 'c2', name: 'Done' }],
+      records: [{ values: { c1: 'Write, test', c2: false } }, { values: { c1: 'Say "hi"' } }],
+    } }));
+
+    expect(sheet.name).toBe('Tasks');
+    expect(sheetToCsv(sheet)).toBe('\ufeffTitle,Done\r\n"Write, test",FALSE\r\n"Say ""hi""",\r\n');
+  });
+});
+
+describe('sheet output', () => {
+  const sheet = (name: string, rows: number): Sheet => ({
+    name,
+    rows: Array.from({ length: rows }, (_, row) => [
+      { text: row === 0 ? 'A<B>' : String(row), rowspan: row === 0 ? rows : 1, colspan: 1, covered: row > 0 },
+      { text: `v${row}`, rowspan: 1, colspan: 1, covered: false },
+    ]),
+  });
+
+  it('names one CSV per sheet and numbers duplicates', () => {
+    expect(sheetCsvNames('Book', [sheet('S', 1)])).toEqual(['Book.csv']);
+    expect(sheetCsvNames('Book', [sheet('S/1', 1), sheet('s/1', 1)])).toEqual(['Book_S_1.csv', 'Book_s_1-2.csv']);
+  });
+
+  it('truncates the preview without splitting merged cells', () => {
+    const html = sheetPreviewHtml([sheet('S', 4)], ['data/Book.csv'], 2);
+
+    expect(html).toBe(
+      '<table><thead><tr><th rowspan="2">A&lt;B&gt;</th><th>v0</th></tr></thead><tbody><tr><td>v1</td></tr></tbody></table>'
+      + '<p>仅预览前 2 行，共 4 行，完整数据见 <a href="data/Book.csv">Book.csv</a></p>'
+    );
+  });
+});
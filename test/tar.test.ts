@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { gunzip, readTar, TarEntry, TarError } from '../src/tar';
+
+const encoder = new TextEncoder();
+
+interface HeaderOptions {
+  type?: string;
+  prefix?: string;
+  // 以 GNU base-256 编码写入大小
+  base256?: boolean;
+}
+
+function header(name: string, size: number, options: HeaderOptions = {}): Uint8Array {
+  const block = new Uint8Array(512);
+  const field = (offset: number, value: string) => block.set(encoder.encode(value), offset);
+  field(0, name);
+  field(100, '0000644\0');
+  if (options.base256) {
+    block[124] = 0x80;
+    new DataView(block.buffer).setBigUint64(128, BigInt(size));
+  } else {
+    field(124, size.toString(8).padStart(11, '0') + '\0');
+  }
+  field(148, '        ');
+  field(156, options.type ?? '0');
+  field(257, 'ustar\x0000');
+  if (options.prefix) field(345, options.prefix);
+  field(148, block.reduce((sum, byte) => sum + byte, 0).toString(8).padStart(6, '0') + '\0 ');
+  return block;
+}
+
+function entry(name: string, content: string | Uint8Array, options: HeaderOptions = {}): Uint8Array[] {
+  const data = typeof content === 'string' ? encoder.encode(content) : content;
+  const body = new Uint8Array(Math.ceil(data.length / 512) * 512);
+  body.set(data);
+  return [header(name, data.length, options), body];
+}
+
+// PAX 记录的长度包含长度字段本身
+function paxRecord(key: string, value: string): string {
+  const record = ` ${key}=${value}\n`;
+  let length = encoder.encode(record).length;
+  length += String(length + String(length).length).length;
+  return `${length}${record}`;
+}
+
+const END = new Uint8Array(1024);
+
+async function read(parts: Uint8Array[]): Promise<Array<Omit<TarEntry, 'data'> & { text: string }>> {
+  const entries = [];
+  for await (const { name, type, data } of readTar(new Blob(parts).stream())) {
+    entries.push({ name, type, text: new TextDecoder().decode(data) });
+  }
+  return entries;
+}
+
+describe('readTar', () => {
+  it('reads files, directories and ustar prefixes', async () => {
+    expect(await read([
+      ...entry('./repo/', '', { type: '5' }),
+      ...entry('a.json', '{"a":1}', { prefix: 'repo/nested' }),
+      ...entry('link', '', { type: '2' }),
+      END,
+    ])).toEqual([
+      { name: 'repo', type: 'directory', text: '' },
+      { name: 'repo/nested/a.json', type: 'file', text: '{"a":1}' },
+    ]);
+  });
+
+  it('applies GNU long names to the next entry only', async () => {
+    const longName = `repo/${'长'.repeat(60)}.json`;
+    expect(await read([
+      ...entry('././@LongLink', longName + '\0', { type: 'L' }),
+      ...entry('truncated', 'long'),
+      ...entry('short.json', 'short'),
+      END,
+    ])).toEqual([
+      { name: longName, type: 'file', text: 'long' },
+      { name: 'short.json', type: 'file', text: 'short' },
+    ]);
+  });
+
+  it('applies PAX path and size overrides', async () => {
+    const content = 'x'.repeat(600);
+    expect(await read([
+      ...entry('PaxHeaders/global', paxRecord('comment', 'ignored'), { type: 'g' }),
+      ...entry('PaxHeaders/a', paxRecord('path', 'repo/中文.json') + paxRecord('size', String(content.length)), { type: 'x' }),
+      // 头部中的大小被 PAX 的 size 覆盖
+      header('placeholder', 0),
+      ...entry('', content).slice(1),
+      ...entry('next.json', 'next'),
+      END,
+    ])).toEqual([
+      { name: 'repo/中文.json', type: 'file', text: content },
+      { name: 'next.json', type: 'file', text: 'next' },
+    ]);
+  });
+
+  it('reads base-256 encoded sizes', async () => {
+    expect(await read([...entry('big.json', 'base256', { base256: true }), END])).toEqual([
+      { name: 'big.json', type: 'file', text: 'base256' },
+    ]);
+  });
+
+  it('ends at a stream boundary without the end marker', async () => {
+    expect(await read(entry('a.json', 'a'))).toEqual([{ name: 'a.json', type: 'file', text: 'a' }]);
+  });
+
+  it('rejects truncated and corrupt archives', async () => {
+    const [head, body] = entry('a.json', 'x'.repeat(1000));
+    await expect(read([head, body.subarray(0, 700)])).rejects.toThrow('Unexpected end of tar archive');
+    await expect(read([head.subarray(0, 300)])).rejects.toThrow(TarError);
+
+    const corrupt = header('a.json', 1);
+    corrupt[0] ^= 1;
+    await expect(read([corrupt, new Uint8Array(512)])).rejects.toThrow('Invalid tar header checksum');
+    await expect(read([...entry('PaxHeaders/a', '5 path\n', { type: 'x' }), END])).rejects.toThrow('Invalid PAX header');
+  });
+
+  it('wraps gzip errors in TarError', async () => {
+    const gzipped = new Uint8Array(await new Response(
+      new Blob([...entry('a.json', 'x'.repeat(2000)), END]).stream().pipeThrough(new CompressionStream('gzip'))
+    ).arrayBuffer());
+
+    const names = [];
+    for await (const { name } of readTar(gunzip(new Blob([gzipped]).stream()))) names.push(name);
+    expect(names).toEqual(['a.json']);
+
+    const entries = readTar(gunzip(new Blob([gzipped.subarray(0, Math.floor(gzipped.length / 2))]).stream()));
+    await expect(entries.next()).rejects.toThrow(TarError);
+  });
+});